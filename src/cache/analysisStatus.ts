@@ -0,0 +1,95 @@
+/**
+ * メッセージごとの分析状態
+ *
+ * 分析済みID（analyzedMessageIds）には結果を保存できたメッセージだけを記録し、
+ * APIエラー・不正な応答で失敗したメッセージは次回の実行で再試行する（maxAttempts回まで）
+ */
+
+import type { AnalysisErrorCategory, AnalysisFailure } from '../claude/analyzer.js';
+
+/**
+ * - succeeded: 分析結果を保存した（知見がなかった場合も含む）
+ * - failed: 分析に失敗した（次回の実行で再試行）
+ * - excluded: 事前フィルタで除外した
+ */
+export type AnalysisStatus = 'succeeded' | 'failed' | 'excluded';
+
+export interface MessageAnalysisStatus {
+  status: AnalysisStatus;
+  attempts: number;                       // 分析を試みた回数（除外の場合は0）
+  error_category?: AnalysisErrorCategory; // 失敗の種類（failedのみ）
+  detail?: string;                        // エラー内容・除外理由
+  updated_at: string;                     // 更新日時（ISO 8601）
+}
+
+export interface ExcludedMessage {
+  messageId: string;
+  reason: string;
+}
+
+export interface AnalysisStatusUpdate {
+  succeeded: string[];
+  failures: AnalysisFailure[];
+  excluded: ExcludedMessage[];
+}
+
+// 失敗したメッセージを再試行する回数の上限（初回を含む）
+export const DEFAULT_MAX_ANALYSIS_ATTEMPTS = 3;
+
+const ERROR_CATEGORY_LABELS: Record<AnalysisErrorCategory, string> = {
+  api_error: 'APIエラー',
+  expired: 'Batchの期限切れ',
+  canceled: 'Batchのキャンセル',
+  parse_error: 'JSONパースエラー',
+  truncated: '出力の途切れ',
+  invalid_output: 'スキーマ不一致'
+};
+
+/**
+ * 失敗の種類の表示名
+ */
+export function describeErrorCategory(category: AnalysisErrorCategory): string {
+  return ERROR_CATEGORY_LABELS[category];
+}
+
+/**
+ * 再試行の上限に達した失敗か
+ */
+export function isRetryExhausted(status: MessageAnalysisStatus, maxAttempts: number): boolean {
+  return status.status === 'failed' && status.attempts >= maxAttempts;
+}
+
+/**
+ * 分析の結果を分析状態に反映
+ * 試行回数は同じメッセージの前回までの回数に加算する（除外した場合は分析していないため前回までの回数のまま）
+ */
+export function updateAnalysisStatus(
+  current: Record<string, MessageAnalysisStatus>,
+  update: AnalysisStatusUpdate
+): Record<string, MessageAnalysisStatus> {
+  const updatedAt = new Date().toISOString();
+  const next = { ...current };
+  const nextAttempts = (messageId: string) => (current[messageId]?.attempts ?? 0) + 1;
+
+  for (const { messageId, reason } of update.excluded) {
+    // 毎回の実行で同じ理由で除外されるため、理由が変わらなければ記録を更新しない
+    if (current[messageId]?.status === 'excluded' && current[messageId].detail === reason) continue;
+    next[messageId] = { status: 'excluded', attempts: current[messageId]?.attempts ?? 0, detail: reason, updated_at: updatedAt };
+  }
+  for (const messageId of update.succeeded) {
+    next[messageId] = { status: 'succeeded', attempts: nextAttempts(messageId), updated_at: updatedAt };
+  }
+  for (const failure of update.failures) {
+    for (const messageId of failure.messageIds) {
+      next[messageId] = {
+        status: 'failed',
+        attempts: nextAttempts(messageId),
+        error_category: failure.category,
+        detail: failure.error,
+        updated_at: updatedAt
+      };
+    }
+  }
+
+  return next;
+}
@@ -0,0 +1,130 @@
+import { join, dirname } from 'path';
+import { existsSync } from 'fs';
+import { readFile, writeFile, mkdir, unlink } from 'fs/promises';
+import type { BatchJobTracker, BatchState } from '../claude/analyzer.js';
+import type { ReferencedFile } from '../chatwork/files.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * 結果を回収していないBatch
+ * 結果を分析キャッシュに保存したら削除する
+ */
+export interface BatchJob extends BatchState {
+  messageIds: string[];  // 結果の保存後に分析済みとして記録するmessage_id
+  referencedFiles: Record<string, ReferencedFile[]>;  // message_id → 参照している添付ファイル
+}
+
+/**
+ * 1ルーム分の分析のBatchを記録するトラッカー
+ */
+export interface RoomBatchJobTracker extends BatchJobTracker {
+  /**
+   * 結果を分析キャッシュに保存した後に呼ぶ（最後に送信したBatchの記録を削除）
+   */
+  complete(): Promise<void>;
+}
+
+export interface BatchJobCache {
+  roomId: string;
+  lastUpdated: string;
+  jobs: BatchJob[];
+}
+
+/**
+ * 送信済みのBatchを管理するクラス
+ * プロセスの終了・スリープで完了を待てなかった場合も、記録したBatch IDから結果を回収できるようにする
+ */
+export class BatchJobManager {
+  private cacheDir: string;
+  private logger: Logger;
+
+  constructor(cacheDir: string = './cache') {
+    this.cacheDir = cacheDir;
+    this.logger = new Logger('BatchJob');
+  }
+
+  private getCachePath(roomId: string): string {
+    return join(this.cacheDir, `batches_${roomId}.json`);
+  }
+
+  /**
+   * 未回収のBatchを取得（送信日時の古い順）
+   */
+  async list(roomId: string): Promise<BatchJob[]> {
+    const cachePath = this.getCachePath(roomId);
+    if (!existsSync(cachePath)) {
+      return [];
+    }
+
+    try {
+      const content = await readFile(cachePath, 'utf-8');
+      const cache = JSON.parse(content) as BatchJobCache;
+      return [...cache.jobs].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      this.logger.error(`読み込みエラー: ${errorMsg}`, e);
+      return [];
+    }
+  }
+
+  /**
+   * 未回収のBatchの対象になっているmessage_id（二重に送信しないよう分析対象から除外する）
+   */
+  async getPendingMessageIds(roomId: string): Promise<string[]> {
+    const jobs = await this.list(roomId);
+    return [...new Set(jobs.flatMap(job => job.messageIds))];
+  }
+
+  /**
+   * Batchの送信を記録するトラッカーを作成
+   * 修正依頼で新しいBatchを送信した場合は、置き換え前のBatchの記録を置き換える
+   * @param batchId 記録済みのBatchを回収する場合、そのBatch ID
+   */
+  createTracker(
+    roomId: string,
+    messageIds: string[],
+    referencedFiles: Record<string, ReferencedFile[]> = {},
+    batchId: string | null = null
+  ): RoomBatchJobTracker {
+    let currentBatchId = batchId;
+    return {
+      onSubmitted: async (state, replacedBatchId) => {
+        const jobs = await this.list(roomId);
+        const job: BatchJob = { ...state, messageIds, referencedFiles };
+        await this.write(roomId, [...jobs.filter(j => j.batchId !== replacedBatchId), job]);
+        currentBatchId = state.batchId;
+        this.logger.info(`Batchを記録: ${state.batchId}（${messageIds.length}件のメッセージ）`);
+      },
+      complete: async () => {
+        if (!currentBatchId) return;
+        const jobs = await this.list(roomId);
+        await this.write(roomId, jobs.filter(job => job.batchId !== currentBatchId));
+        currentBatchId = null;
+      }
+    };
+  }
+
+  private async write(roomId: string, jobs: BatchJob[]): Promise<void> {
+    const cachePath = this.getCachePath(roomId);
+
+    // 未回収のBatchがなくなったらファイルごと削除
+    if (jobs.length === 0) {
+      if (existsSync(cachePath)) {
+        await unlink(cachePath);
+      }
+      return;
+    }
+
+    const dir = dirname(cachePath);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+    }
+
+    const cache: BatchJobCache = {
+      roomId,
+      lastUpdated: new Date().toISOString(),
+      jobs
+    };
+    await writeFile(cachePath, JSON.stringify(cache, null, 2), 'utf-8');
+  }
+}
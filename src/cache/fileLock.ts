@@ -0,0 +1,79 @@
+/**
+ * キャッシュファイルのロック
+ * Webhook受信サーバーと通常実行（npm start / --watch）は別プロセスで同じ room_{roomId}.json を読み書きするため、
+ * 読み込み → 変更 → 保存の間は `<ファイル>.lock` を排他的に作成してほかのプロセスを待たせる
+ */
+
+import { open, rename, stat, unlink, writeFile } from 'fs/promises';
+
+export interface FileLockConfig {
+  timeoutMs: number;  // ロックの取得を待つ上限
+  staleMs: number;    // これより古いロックは、異常終了したプロセスが残したものとみなして削除する
+  retryMs: number;
+}
+
+export const DEFAULT_FILE_LOCK_CONFIG: FileLockConfig = {
+  timeoutMs: 10_000,
+  staleMs: 30_000,
+  retryMs: 50,
+};
+
+/**
+ * ファイルのロックを取得して処理を実行（処理が終わるか失敗したらロックを解放）
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  task: () => Promise<T>,
+  config: Partial<FileLockConfig> = {}
+): Promise<T> {
+  const cfg = { ...DEFAULT_FILE_LOCK_CONFIG, ...config };
+  const lockPath = `${filePath}.lock`;
+  await acquire(lockPath, cfg);
+  try {
+    return await task();
+  } finally {
+    await unlink(lockPath).catch(() => {});
+  }
+}
+
+/**
+ * 一時ファイルに書き込んでから置き換える（書き込み途中の内容をほかのプロセスが読まないように）
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await writeFile(tempPath, content, 'utf-8');
+  await rename(tempPath, filePath);
+}
+
+async function acquire(lockPath: string, cfg: FileLockConfig): Promise<void> {
+  const deadline = Date.now() + cfg.timeoutMs;
+  for (;;) {
+    try {
+      const handle = await open(lockPath, 'wx');
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      return;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'EEXIST') throw e;
+    }
+
+    if (await isStale(lockPath, cfg.staleMs)) {
+      await unlink(lockPath).catch(() => {});
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`キャッシュのロックを取得できませんでした: ${lockPath}（ほかのプロセスが書き込み中です）`);
+    }
+    await new Promise(resolve => setTimeout(resolve, cfg.retryMs));
+  }
+}
+
+async function isStale(lockPath: string, staleMs: number): Promise<boolean> {
+  try {
+    const { mtimeMs } = await stat(lockPath);
+    return Date.now() - mtimeMs > staleMs;
+  } catch {
+    // 確認する前に解放された
+    return false;
+  }
+}
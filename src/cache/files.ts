@@ -0,0 +1,90 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import type { ChatworkFile } from '../chatwork/client.js';
+import { Logger } from '../utils/logger.js';
+
+export interface FileCache {
+  roomId: string;
+  lastUpdated: string;
+  files: ChatworkFile[];
+}
+
+/**
+ * 添付ファイルのメタデータ（ファイル名・サイズ・アップロード者・日時）のキャッシュ
+ * ファイル本体はダウンロードしない
+ */
+export class FileCacheManager {
+  private cacheDir: string;
+  private logger: Logger;
+
+  constructor(cacheDir: string = './cache') {
+    this.cacheDir = cacheDir;
+    this.logger = new Logger('FileCache');
+  }
+
+  private getCachePath(roomId: string): string {
+    return join(this.cacheDir, `files_${roomId}.json`);
+  }
+
+  /**
+   * キャッシュを読み込む
+   */
+  async load(roomId: string): Promise<FileCache | null> {
+    const cachePath = this.getCachePath(roomId);
+
+    if (!existsSync(cachePath)) {
+      return null;
+    }
+
+    try {
+      const content = await readFile(cachePath, 'utf-8');
+      return JSON.parse(content) as FileCache;
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      this.logger.error(`読み込みエラー: ${errorMsg}`, e);
+      return null;
+    }
+  }
+
+  /**
+   * 取得したファイル情報を既存キャッシュにマージして保存（file_idで重複排除）
+   */
+  async merge(roomId: string, files: ChatworkFile[]): Promise<ChatworkFile[]> {
+    const cachePath = this.getCachePath(roomId);
+    const existing = await this.load(roomId);
+
+    const fileMap = new Map<number, ChatworkFile>();
+    for (const file of existing?.files ?? []) {
+      fileMap.set(file.file_id, file);
+    }
+
+    let addedCount = 0;
+    for (const file of files) {
+      if (!fileMap.has(file.file_id)) {
+        addedCount++;
+      }
+      fileMap.set(file.file_id, file);
+    }
+
+    // アップロード日時でソート（新しい順）
+    const merged = Array.from(fileMap.values()).sort((a, b) => b.upload_time - a.upload_time);
+
+    const cache: FileCache = {
+      roomId,
+      lastUpdated: new Date().toISOString(),
+      files: merged
+    };
+
+    // ディレクトリがなければ作成
+    const dir = dirname(cachePath);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+    }
+
+    await writeFile(cachePath, JSON.stringify(cache, null, 2), 'utf-8');
+    this.logger.info(`保存完了: ${merged.length}件 (新規${addedCount}件)`);
+
+    return merged;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * メッセージ履歴の欠落（取得できていない可能性がある期間）
+ *
+ * Chatwork APIは1回に最新100件までしか返さないため、
+ * - 初回取得で100件に達した: 取得できた最古のメッセージより前の履歴がない
+ * - 差分取得で100件に達した: 前回取得した最新のメッセージから、今回取得した最古のメッセージまでの間が欠けている可能性
+ */
+
+export type GapReason = 'initial_limit' | 'diff_limit';
+
+export interface HistoryGap {
+  from: number | null;  // 欠落の可能性がある期間の開始（UNIX時間、nullは履歴の先頭から）
+  to: number;           // 欠落の可能性がある期間の終了（取得できた最古のメッセージの送信日時）
+  reason: GapReason;
+  detected_at: string;  // 検出日時（ISO 8601）
+  run_id: string;       // 検出した実行（出力ファイルのタイムスタンプと同じ形式）
+}
+
+const GAP_REASON_LABELS: Record<GapReason, string> = {
+  initial_limit: '初回取得の上限',
+  diff_limit: '差分取得の上限'
+};
+
+/**
+ * 欠落の原因の表示名
+ */
+export function describeGapReason(reason: GapReason): string {
+  return GAP_REASON_LABELS[reason];
+}
+
+/**
+ * 欠落期間の表示（例: 2025/1/10 12:00 〜 2025/1/15 9:30、〜 2024/11/15 10:30 より前）
+ */
+export function formatGapPeriod(gap: HistoryGap): string {
+  const to = formatTime(gap.to);
+  return gap.from === null ? `${to} より前` : `${formatTime(gap.from)} 〜 ${to}`;
+}
+
+/**
+ * 同じ期間の欠落を重複して記録しないようマージ（期間の古い順）
+ */
+export function mergeGaps(existing: HistoryGap[], added: HistoryGap[]): HistoryGap[] {
+  const gapMap = new Map<string, HistoryGap>();
+  for (const gap of [...existing, ...added]) {
+    const key = `${gap.from ?? ''}-${gap.to}`;
+    if (!gapMap.has(key)) {
+      gapMap.set(key, gap);
+    }
+  }
+  return Array.from(gapMap.values()).sort((a, b) => (a.from ?? 0) - (b.from ?? 0) || a.to - b.to);
+}
+
+function formatTime(unixTime: number): string {
+  return new Date(unixTime * 1000).toLocaleString('ja-JP', {
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
@@ -1,8 +1,18 @@
-import { readFile, writeFile, mkdir } from 'fs/promises';
+import { readFile, mkdir, readdir } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join, dirname } from 'path';
 import type { ChatworkMessage } from '../chatwork/client.js';
-import type { AnalyzedMessage } from '../claude/analyzer.js';
+import { getSourceMessageIds, type AnalyzedMessage } from '../claude/analyzer.js';
+import { mergeGaps, formatGapPeriod, describeGapReason, type HistoryGap } from './gaps.js';
+import {
+  updateAnalysisStatus,
+  isRetryExhausted,
+  describeErrorCategory,
+  DEFAULT_MAX_ANALYSIS_ATTEMPTS,
+  type AnalysisStatusUpdate,
+  type MessageAnalysisStatus
+} from './analysisStatus.js';
+import { withFileLock, writeFileAtomic } from './fileLock.js';
 import { Logger } from '../utils/logger.js';
 
 export interface MessageCache {
@@ -11,6 +21,18 @@ export interface MessageCache {
   lastMessageId: string | null;
   messages: ChatworkMessage[];
   analyzedMessageIds: string[]; // 分析済みのmessage_id一覧
+  gaps?: HistoryGap[];          // 取得できていない可能性がある期間
+  analysisStatus?: Record<string, MessageAnalysisStatus>; // message_id → 分析状態
+}
+
+export interface FailedAnalysis {
+  messageId: string;
+  status: MessageAnalysisStatus;
+}
+
+export interface MergeResult {
+  messages: ChatworkMessage[];
+  updatedIds: string[];  // 編集により置き換えたmessage_id
 }
 
 export class MessageCacheManager {
@@ -48,6 +70,7 @@ export class MessageCacheManager {
 
   /**
    * キャッシュを保存
+   * 読み込んだ後にほかのプロセス（Webhook受信サーバー等）が追記したメッセージは残す
    */
   async save(roomId: string, messages: ChatworkMessage[], analyzedMessageIds?: string[]): Promise<void> {
     const cachePath = this.getCachePath(roomId);
@@ -58,28 +81,104 @@ export class MessageCacheManager {
       await mkdir(dir, { recursive: true });
     }
 
-    // 既存キャッシュから分析済みIDを取得
-    const existingCache = await this.load(roomId);
-    const existingAnalyzedIds = existingCache?.analyzedMessageIds || [];
+    await withFileLock(cachePath, async () => {
+      // 既存キャッシュから分析済みIDを取得
+      const existingCache = await this.load(roomId);
+      const existingAnalyzedIds = existingCache?.analyzedMessageIds || [];
+
+      // 新しい分析済みIDをマージ
+      const allAnalyzedIds = [...new Set([...existingAnalyzedIds, ...(analyzedMessageIds || [])])];
+
+      // 送信日時でソート（新しい順）
+      // 取り込んだメッセージは合成ID（import_...）のため、message_idの数値順には並べられない
+      const sortedMessages = this.keepStoredMessages(existingCache?.messages ?? [], messages).sort(
+        (a, b) => b.send_time - a.send_time || b.message_id.localeCompare(a.message_id)
+      );
+
+      const cache: MessageCache = {
+        roomId,
+        lastUpdated: new Date().toISOString(),
+        lastMessageId: sortedMessages.length > 0 ? sortedMessages[0].message_id : null,
+        messages: sortedMessages,
+        analyzedMessageIds: allAnalyzedIds,
+        ...(existingCache?.gaps ? { gaps: existingCache.gaps } : {}),
+        ...(existingCache?.analysisStatus ? { analysisStatus: existingCache.analysisStatus } : {})
+      };
+
+      await writeFileAtomic(cachePath, JSON.stringify(cache, null, 2));
+      this.logger.info(`保存完了: ${sortedMessages.length}件 (${cachePath})`);
+    });
+  }
+
+  /**
+   * 保存するメッセージに、保存済みのメッセージのうち含まれていないもの・より新しく編集されたものを加える
+   */
+  private keepStoredMessages(stored: ChatworkMessage[], messages: ChatworkMessage[]): ChatworkMessage[] {
+    const messageMap = new Map(messages.map(m => [m.message_id, m]));
+    for (const message of stored) {
+      const saving = messageMap.get(message.message_id);
+      if (!saving || message.update_time > saving.update_time) {
+        messageMap.set(message.message_id, message);
+      }
+    }
+    return Array.from(messageMap.values());
+  }
+
+  /**
+   * キャッシュを読み込み、変更して保存（読み込みから保存までほかのプロセスの書き込みを待たせる）
+   */
+  private async updateCache(roomId: string, update: (cache: MessageCache) => void): Promise<boolean> {
+    const cachePath = this.getCachePath(roomId);
+    if (!existsSync(cachePath)) {
+      return false;
+    }
+
+    return withFileLock(cachePath, async () => {
+      const cache = await this.load(roomId);
+      if (!cache) return false;
 
-    // 新しい分析済みIDをマージ
-    const allAnalyzedIds = [...new Set([...existingAnalyzedIds, ...(analyzedMessageIds || [])])];
+      update(cache);
+      cache.lastUpdated = new Date().toISOString();
+      await writeFileAtomic(cachePath, JSON.stringify(cache, null, 2));
+      return true;
+    });
+  }
 
-    // message_idでソート（新しい順）
-    const sortedMessages = [...messages].sort(
-      (a, b) => parseInt(b.message_id) - parseInt(a.message_id)
-    );
+  /**
+   * 取得できていない可能性がある期間を記録（同じ期間は重複させない）
+   */
+  async recordGaps(roomId: string, gaps: HistoryGap[]): Promise<void> {
+    if (gaps.length === 0) return;
+    const saved = await this.updateCache(roomId, cache => {
+      cache.gaps = mergeGaps(cache.gaps ?? [], gaps);
+    });
+    if (!saved) return;
+
+    for (const gap of gaps) {
+      this.logger.warn(`欠落の可能性がある期間を記録: ${formatGapPeriod(gap)}（${describeGapReason(gap.reason)}）`);
+    }
+  }
 
-    const cache: MessageCache = {
-      roomId,
-      lastUpdated: new Date().toISOString(),
-      lastMessageId: sortedMessages.length > 0 ? sortedMessages[0].message_id : null,
-      messages: sortedMessages,
-      analyzedMessageIds: allAnalyzedIds
-    };
+  /**
+   * 記録済みの欠落期間を取得
+   */
+  async getGaps(roomId: string): Promise<HistoryGap[]> {
+    const cache = await this.load(roomId);
+    return cache?.gaps ?? [];
+  }
 
-    await writeFile(cachePath, JSON.stringify(cache, null, 2), 'utf-8');
-    this.logger.info(`保存完了: ${messages.length}件 (${cachePath})`);
+  /**
+   * キャッシュが存在するルームIDの一覧
+   */
+  async listCachedRoomIds(): Promise<string[]> {
+    if (!existsSync(this.cacheDir)) {
+      return [];
+    }
+    const files = await readdir(this.cacheDir);
+    return files
+      .map(file => file.match(/^room_(.+)\.json$/)?.[1])
+      .filter((roomId): roomId is string => roomId !== undefined)
+      .sort();
   }
 
   /**
@@ -91,56 +190,132 @@ export class MessageCacheManager {
   }
 
   /**
-   * 分析済みIDを追加保存
+   * 分析状態を記録（成功したメッセージは分析済みIDにも追加）
+   * 失敗したメッセージは分析済みにしないため、次回の実行で再試行される
    */
-  async markAsAnalyzed(roomId: string, messageIds: string[]): Promise<void> {
-    const cache = await this.load(roomId);
-    if (!cache) return;
+  async recordAnalysisStatus(roomId: string, update: AnalysisStatusUpdate): Promise<void> {
+    const saved = await this.updateCache(roomId, cache => {
+      cache.analyzedMessageIds = [...new Set([...cache.analyzedMessageIds, ...update.succeeded])];
+      cache.analysisStatus = updateAnalysisStatus(cache.analysisStatus ?? {}, update);
+    });
+    if (!saved) return;
+
+    if (update.succeeded.length > 0) {
+      this.logger.info(`分析済みとしてマーク: ${update.succeeded.length}件`);
+    }
 
-    const allAnalyzedIds = [...new Set([...cache.analyzedMessageIds, ...messageIds])];
-    cache.analyzedMessageIds = allAnalyzedIds;
-    cache.lastUpdated = new Date().toISOString();
+    const failedCount = update.failures.reduce((sum, failure) => sum + failure.messageIds.length, 0);
+    if (failedCount > 0) {
+      this.logger.warn(`分析失敗として記録: ${failedCount}件（次回の実行で再試行します）`);
+    }
+  }
 
-    const cachePath = this.getCachePath(roomId);
-    await writeFile(cachePath, JSON.stringify(cache, null, 2), 'utf-8');
-    this.logger.info(`分析済みとしてマーク: ${messageIds.length}件`);
+  /**
+   * 分析に失敗したメッセージを取得（試行回数の多い順）
+   */
+  async getFailedAnalyses(roomId: string): Promise<FailedAnalysis[]> {
+    const cache = await this.load(roomId);
+    return Object.entries(cache?.analysisStatus ?? {})
+      .filter(([, status]) => status.status === 'failed')
+      .map(([messageId, status]) => ({ messageId, status }))
+      .sort((a, b) => b.status.attempts - a.status.attempts || a.messageId.localeCompare(b.messageId));
+  }
+
+  /**
+   * 再試行の上限に達したmessage_id（分析対象から除外する）
+   */
+  async getRetryExhaustedIds(roomId: string, maxAttempts: number): Promise<string[]> {
+    const failed = await this.getFailedAnalyses(roomId);
+    return failed
+      .filter(({ status }) => isRetryExhausted(status, maxAttempts))
+      .map(({ messageId }) => messageId);
   }
 
   /**
    * 新しいメッセージを既存キャッシュにマージ
+   * 既存のメッセージでもupdate_timeが新しければ編集後の内容で置き換える
    */
   mergeMessages(
     existing: ChatworkMessage[],
     newMessages: ChatworkMessage[]
-  ): ChatworkMessage[] {
-    // 既存のmessage_idセット
-    const existingIds = new Set(existing.map(m => m.message_id));
-
-    // 重複を除いて追加
-    const merged = [...existing];
+  ): MergeResult {
+    const messageMap = new Map(existing.map(m => [m.message_id, m]));
     let addedCount = 0;
+    const updatedIds: string[] = [];
 
     for (const msg of newMessages) {
-      if (!existingIds.has(msg.message_id)) {
-        merged.push(msg);
+      const previous = messageMap.get(msg.message_id);
+      if (!previous) {
+        messageMap.set(msg.message_id, msg);
         addedCount++;
+      } else if (msg.update_time > previous.update_time) {
+        messageMap.set(msg.message_id, msg);
+        updatedIds.push(msg.message_id);
+      } else if (!previous.account.name && msg.account.name) {
+        // Webhookで受信したメッセージは発言者名を含まないため、APIの取得結果で補完する
+        messageMap.set(msg.message_id, { ...previous, account: msg.account });
       }
     }
 
     // 時系列でソート（新しい順）
-    merged.sort((a, b) => b.send_time - a.send_time);
+    const merged = Array.from(messageMap.values()).sort((a, b) => b.send_time - a.send_time);
 
     if (addedCount > 0) {
       this.logger.info(`${addedCount}件の新規メッセージを追加`);
     }
+    if (updatedIds.length > 0) {
+      this.logger.info(`${updatedIds.length}件の編集されたメッセージを更新`);
+    }
 
-    return merged;
+    return { messages: merged, updatedIds };
+  }
+
+  /**
+   * 編集されたメッセージの分析済み状態と分析結果を取り消す
+   * 次回の分析で再分析され、新しい結果に置き換わる
+   */
+  async invalidateAnalysis(roomId: string, messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) return;
+    const targetIds = new Set(messageIds);
+
+    // 会話単位の知見は、寄与したメッセージのどれかが編集されたら破棄し、会話全体を再分析する
+    const analysisCachePath = this.getAnalysisCachePath(roomId);
+    if (existsSync(analysisCachePath)) {
+      await withFileLock(analysisCachePath, async () => {
+        const analysisCache = await this.loadAnalysisCache(roomId);
+        if (!analysisCache) return;
+
+        const before = analysisCache.results.length;
+        analysisCache.results = analysisCache.results.filter(item => {
+          const sourceIds = getSourceMessageIds(item);
+          if (!sourceIds.some(id => targetIds.has(id))) return true;
+          sourceIds.forEach(id => targetIds.add(id));
+          return false;
+        });
+        analysisCache.lastUpdated = new Date().toISOString();
+        await writeFileAtomic(analysisCachePath, JSON.stringify(analysisCache, null, 2));
+        this.logger.info(`編集されたメッセージの分析結果を破棄: ${before - analysisCache.results.length}件`);
+      });
+    }
+
+    await this.updateCache(roomId, cache => {
+      cache.analyzedMessageIds = cache.analyzedMessageIds.filter(id => !targetIds.has(id));
+      // 編集後の内容は改めて分析するため、失敗の試行回数もリセットする
+      if (cache.analysisStatus) {
+        for (const id of targetIds) {
+          delete cache.analysisStatus[id];
+        }
+      }
+    });
+
+    this.logger.info(`再分析対象に戻しました: ${targetIds.size}件`);
   }
 
   /**
    * キャッシュの統計情報を表示
+   * @param maxAttempts 分析失敗の再試行の上限（上限に達したメッセージを一覧表示する）
    */
-  async showStats(roomId: string): Promise<void> {
+  async showStats(roomId: string, maxAttempts: number = DEFAULT_MAX_ANALYSIS_ATTEMPTS): Promise<void> {
     const cache = await this.load(roomId);
 
     if (!cache) {
@@ -156,6 +331,17 @@ export class MessageCacheManager {
     this.logger.info(`統計情報:`);
     this.logger.info(`  - 保存件数: ${cache.messages.length}件`);
     this.logger.info(`  - 分析済み: ${analyzedCount}件 / 未分析: ${unanalyzedCount}件`);
+    const statuses = Object.values(cache.analysisStatus ?? {});
+    const failed = await this.getFailedAnalyses(roomId);
+    if (failed.length > 0 || statuses.some(status => status.status === 'excluded')) {
+      const excludedCount = statuses.filter(status => status.status === 'excluded').length;
+      const exhausted = failed.filter(({ status }) => isRetryExhausted(status, maxAttempts));
+      this.logger.info(`  - 未分析のうち事前フィルタで除外: ${excludedCount}件 / 分析失敗: ${failed.length}件（再試行の上限に達したもの: ${exhausted.length}件）`);
+      for (const { messageId, status } of exhausted) {
+        const category = status.error_category ? describeErrorCategory(status.error_category) : '不明';
+        this.logger.info(`    - ${messageId}: ${category}（${status.attempts}回、最終: ${status.updated_at}）${status.detail ? ` ${status.detail}` : ''}`);
+      }
+    }
     this.logger.info(`  - 最終更新: ${cache.lastUpdated}`);
     if (oldestMsg) {
       this.logger.info(`  - 最古: ${new Date(oldestMsg.send_time * 1000).toLocaleString('ja-JP')}`);
@@ -163,6 +349,13 @@ export class MessageCacheManager {
     if (newestMsg) {
       this.logger.info(`  - 最新: ${new Date(newestMsg.send_time * 1000).toLocaleString('ja-JP')}`);
     }
+    const gaps = cache.gaps ?? [];
+    if (gaps.length > 0) {
+      this.logger.info(`  - 欠落の可能性がある期間: ${gaps.length}件`);
+      for (const gap of gaps) {
+        this.logger.info(`    - ${formatGapPeriod(gap)}（${describeGapReason(gap.reason)}、検出: ${gap.run_id}）`);
+      }
+    }
   }
 
   /**
@@ -191,19 +384,21 @@ export class MessageCacheManager {
       await mkdir(dir, { recursive: true });
     }
 
-    // 既存結果を読み込んでマージ
-    const existing = await this.loadAnalysisResults(roomId);
-    const merged = this.mergeAnalysisResults(existing, results);
-
-    const cacheData: AnalysisCache = {
-      roomId,
-      lastUpdated: new Date().toISOString(),
-      model,
-      results: merged
-    };
-
-    await writeFile(cachePath, JSON.stringify(cacheData, null, 2), 'utf-8');
-    this.logger.info(`分析結果を保存: ${merged.length}件 (新規${results.length}件)`);
+    await withFileLock(cachePath, async () => {
+      // 既存結果を読み込んでマージ
+      const existing = await this.loadAnalysisResults(roomId);
+      const merged = this.mergeAnalysisResults(existing, results);
+
+      const cacheData: AnalysisCache = {
+        roomId,
+        lastUpdated: new Date().toISOString(),
+        model,
+        results: merged
+      };
+
+      await writeFileAtomic(cachePath, JSON.stringify(cacheData, null, 2));
+      this.logger.info(`分析結果を保存: ${merged.length}件 (新規${results.length}件)`);
+    });
   }
 
   /**
@@ -235,25 +430,19 @@ export class MessageCacheManager {
   }
 
   /**
-   * 分析結果をマージ（message_idで重複排除、新しい結果を優先）
+   * 分析結果をマージ（同じメッセージの結果は新しい結果を優先）
    */
   private mergeAnalysisResults(
     existing: AnalyzedMessage[],
     newResults: AnalyzedMessage[]
   ): AnalyzedMessage[] {
-    const resultMap = new Map<string, AnalyzedMessage>();
-
-    // 既存結果をセット
-    for (const item of existing) {
-      resultMap.set(item.message_id, item);
-    }
-
-    // 新しい結果で上書き
-    for (const item of newResults) {
-      resultMap.set(item.message_id, item);
-    }
+    // 新しい結果の元になったメッセージの既存結果は置き換える
+    // （1つのメッセージ・会話から複数の知見が出ることがあるため、message_id単位で上書きせず丸ごと入れ替える）
+    const replacedIds = new Set(newResults.flatMap(item => getSourceMessageIds(item)));
+    // 会話単位の知見は、先頭以外の発言が別の会話として再分析された場合も置き換える（同じ知見の重複を防ぐ）
+    const kept = existing.filter(item => !getSourceMessageIds(item).some(id => replacedIds.has(id)));
 
-    return Array.from(resultMap.values());
+    return [...kept, ...newResults];
   }
 
   /**
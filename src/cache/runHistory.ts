@@ -0,0 +1,154 @@
+import { join, dirname } from 'path';
+import { existsSync } from 'fs';
+import { readFile, mkdir } from 'fs/promises';
+import { withFileLock, writeFileAtomic } from './fileLock.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * 1回の分析（または未回収のBatchの回収）で使用したトークンと料金
+ */
+export interface RunUsageRecord {
+  run_id: string;         // 実行（出力ファイルのタイムスタンプと同じ形式）
+  room_id: string;
+  recorded_at: string;    // 記録日時（ISO 8601）
+  model: string;
+  api_mode: 'batch' | 'realtime';
+  requests: number;       // 修正依頼を含むリクエスト数
+  input_tokens: number;   // キャッシュを使わなかった入力トークン
+  output_tokens: number;
+  cache_write_tokens?: number;  // プロンプトキャッシュへの書き込み（キャッシュ対応より前の記録にはない）
+  cache_read_tokens?: number;   // プロンプトキャッシュからの読み込み
+  cost_usd: number | null;  // 単価表にないモデルはnull
+}
+
+export interface RunHistory {
+  lastUpdated: string;
+  records: RunUsageRecord[];
+}
+
+/**
+ * 月別・ルーム別の集計
+ */
+export interface MonthlyUsage {
+  month: string;          // YYYY-MM（記録日時のローカル時刻）
+  room_id: string;
+  requests: number;
+  input_tokens: number;
+  output_tokens: number;
+  cache_write_tokens: number;
+  cache_read_tokens: number;
+  cost_usd: number;       // 単価不明の記録は含まない
+  records: number;
+  unpriced_records: number;
+}
+
+/**
+ * 実行ごとのトークン使用量・料金の履歴を管理するクラス
+ * 全ルーム共通の1ファイル（run_history.json）に追記し、月別の費用の集計に使う
+ */
+export class RunHistoryManager {
+  private historyPath: string;
+  private logger: Logger;
+
+  constructor(cacheDir: string = './cache') {
+    this.historyPath = join(cacheDir, 'run_history.json');
+    this.logger = new Logger('RunHistory');
+  }
+
+  /**
+   * 履歴を読み込む（記録の古い順）
+   */
+  async load(): Promise<RunUsageRecord[]> {
+    if (!existsSync(this.historyPath)) {
+      return [];
+    }
+
+    try {
+      return await this.readRecords();
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      this.logger.error(`読み込みエラー: ${errorMsg}`, e);
+      return [];
+    }
+  }
+
+  /**
+   * 記録を追加
+   * 全ルーム・複数のプロセス（通常実行・--watch・collect）で共有するため、ロックして読み込みから保存までを行う
+   * 既存の履歴を読み込めない場合は、履歴を失わないよう上書きせずにエラーとする
+   */
+  async append(record: RunUsageRecord): Promise<void> {
+    const dir = dirname(this.historyPath);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+    }
+
+    await withFileLock(this.historyPath, async () => {
+      let records: RunUsageRecord[] = [];
+      if (existsSync(this.historyPath)) {
+        try {
+          records = await this.readRecords();
+        } catch (e) {
+          const errorMsg = e instanceof Error ? e.message : String(e);
+          throw new Error(`実行履歴を読み込めないため記録を追加できません（${this.historyPath}）: ${errorMsg}`);
+        }
+      }
+
+      const history: RunHistory = {
+        lastUpdated: new Date().toISOString(),
+        records: [...records, record]
+      };
+      await writeFileAtomic(this.historyPath, JSON.stringify(history, null, 2));
+    });
+  }
+
+  private async readRecords(): Promise<RunUsageRecord[]> {
+    const content = await readFile(this.historyPath, 'utf-8');
+    const history = JSON.parse(content) as RunHistory;
+    if (!Array.isArray(history?.records)) {
+      throw new Error('records 配列がありません');
+    }
+    return history.records;
+  }
+}
+
+/**
+ * 履歴を月別・ルーム別に集計（月の古い順、同じ月はルームID順）
+ */
+export function summarizeMonthlyUsage(records: RunUsageRecord[]): MonthlyUsage[] {
+  const summaries = new Map<string, MonthlyUsage>();
+
+  for (const record of records) {
+    const recordedAt = new Date(record.recorded_at);
+    const month = `${recordedAt.getFullYear()}-${String(recordedAt.getMonth() + 1).padStart(2, '0')}`;
+    const key = `${month}:${record.room_id}`;
+
+    const summary = summaries.get(key) ?? {
+      month,
+      room_id: record.room_id,
+      requests: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      cache_write_tokens: 0,
+      cache_read_tokens: 0,
+      cost_usd: 0,
+      records: 0,
+      unpriced_records: 0
+    };
+    summary.records++;
+    summary.requests += record.requests;
+    summary.input_tokens += record.input_tokens;
+    summary.output_tokens += record.output_tokens;
+    summary.cache_write_tokens += record.cache_write_tokens ?? 0;
+    summary.cache_read_tokens += record.cache_read_tokens ?? 0;
+    if (record.cost_usd === null) {
+      summary.unpriced_records++;
+    } else {
+      summary.cost_usd += record.cost_usd;
+    }
+    summaries.set(key, summary);
+  }
+
+  return Array.from(summaries.values())
+    .sort((a, b) => a.month.localeCompare(b.month) || a.room_id.localeCompare(b.room_id));
+}
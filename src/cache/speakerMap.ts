@@ -23,6 +23,21 @@ export interface SpeakerMapCache {
   speakers: Record<string, SpeakerInfo>;  // message_id → SpeakerInfo
 }
 
+/**
+ * 複数メッセージの発言者を重複なく取得（登場順、SpeakerMapにないメッセージは除く）
+ * 会話単位の知見は複数の発言者にまたがるため
+ */
+export function resolveSpeakers(speakerMap: SpeakerMapCache, messageIds: string[]): SpeakerInfo[] {
+  const speakers = new Map<number, SpeakerInfo>();
+  for (const messageId of messageIds) {
+    const speakerInfo = speakerMap.speakers[messageId];
+    if (speakerInfo && !speakers.has(speakerInfo.account_id)) {
+      speakers.set(speakerInfo.account_id, speakerInfo);
+    }
+  }
+  return Array.from(speakers.values());
+}
+
 /**
  * 発言者マッピングを管理するクラス
  * message_id → 発言者情報のマッピングをキャッシュファイルで管理
@@ -0,0 +1,100 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, dirname } from 'path';
+import type { ChatworkTask } from '../chatwork/client.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * キャッシュ上のタスク（APIレスポンス + 初回取得時刻）
+ * タスクには作成日時がないため、作成元メッセージがキャッシュにない場合は初回取得時刻を日時として使う
+ */
+export interface CachedTask extends ChatworkTask {
+  first_seen_time: number;  // UNIX時間（秒）
+}
+
+export interface TaskCache {
+  roomId: string;
+  lastUpdated: string;
+  tasks: CachedTask[];
+}
+
+export class TaskCacheManager {
+  private cacheDir: string;
+  private logger: Logger;
+
+  constructor(cacheDir: string = './cache') {
+    this.cacheDir = cacheDir;
+    this.logger = new Logger('TaskCache');
+  }
+
+  private getCachePath(roomId: string): string {
+    return join(this.cacheDir, `tasks_${roomId}.json`);
+  }
+
+  /**
+   * キャッシュを読み込む
+   */
+  async load(roomId: string): Promise<TaskCache | null> {
+    const cachePath = this.getCachePath(roomId);
+
+    if (!existsSync(cachePath)) {
+      return null;
+    }
+
+    try {
+      const content = await readFile(cachePath, 'utf-8');
+      return JSON.parse(content) as TaskCache;
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      this.logger.error(`読み込みエラー: ${errorMsg}`, e);
+      return null;
+    }
+  }
+
+  /**
+   * 取得したタスクを既存キャッシュにマージして保存
+   * 同じtask_idはステータス・本文の変更を反映するため上書き（初回取得時刻は維持）
+   */
+  async merge(roomId: string, tasks: ChatworkTask[]): Promise<CachedTask[]> {
+    const cachePath = this.getCachePath(roomId);
+    const existing = await this.load(roomId);
+
+    const taskMap = new Map<number, CachedTask>();
+    for (const task of existing?.tasks ?? []) {
+      taskMap.set(task.task_id, task);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    let addedCount = 0;
+    for (const task of tasks) {
+      const previous = taskMap.get(task.task_id);
+      if (!previous) {
+        addedCount++;
+      }
+      taskMap.set(task.task_id, {
+        ...task,
+        first_seen_time: previous?.first_seen_time ?? now
+      });
+    }
+
+    // task_idでソート（新しい順）
+    const merged = Array.from(taskMap.values()).sort((a, b) => b.task_id - a.task_id);
+
+    const cache: TaskCache = {
+      roomId,
+      lastUpdated: new Date().toISOString(),
+      tasks: merged
+    };
+
+    // ディレクトリがなければ作成
+    const dir = dirname(cachePath);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+    }
+
+    await writeFile(cachePath, JSON.stringify(cache, null, 2), 'utf-8');
+    this.logger.info(`保存完了: ${merged.length}件 (新規${addedCount}件)`);
+
+    return merged;
+  }
+}
@@ -0,0 +1,93 @@
+import { join, dirname } from 'path';
+import { existsSync } from 'fs';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import type { ChatworkMessage } from '../chatwork/client.js';
+import { buildThreadLinks, type ThreadLink } from '../chatwork/thread.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * ThreadMapキャッシュ
+ */
+export interface ThreadMapCache {
+  roomId: string;
+  lastUpdated: string;
+  links: Record<string, ThreadLink>;  // message_id → ThreadLink
+}
+
+/**
+ * スレッド構造（返信先・引用元）を管理するクラス
+ * message_id → スレッド情報のマッピングをメッセージキャッシュと同じディレクトリで管理
+ */
+export class ThreadMapManager {
+  private cacheDir: string;
+  private logger: Logger;
+
+  constructor(cacheDir: string = './cache') {
+    this.cacheDir = cacheDir;
+    this.logger = new Logger('ThreadMap');
+  }
+
+  private getCachePath(roomId: string): string {
+    return join(this.cacheDir, `threads_${roomId}.json`);
+  }
+
+  /**
+   * キャッシュを読み込む
+   */
+  async load(roomId: string): Promise<ThreadMapCache | null> {
+    const cachePath = this.getCachePath(roomId);
+    if (!existsSync(cachePath)) {
+      return null;
+    }
+
+    try {
+      const content = await readFile(cachePath, 'utf-8');
+      return JSON.parse(content) as ThreadMapCache;
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      this.logger.error(`読み込みエラー: ${errorMsg}`, e);
+      return null;
+    }
+  }
+
+  /**
+   * メッセージ群からスレッド情報を構築して保存（既存とマージ）
+   * 引用元の照合精度を上げるため、キャッシュ済みの全メッセージを渡すこと
+   */
+  async save(roomId: string, messages: ChatworkMessage[]): Promise<void> {
+    const cachePath = this.getCachePath(roomId);
+    const existing = await this.load(roomId);
+
+    const newLinks = buildThreadLinks(messages);
+    const merged = {
+      ...existing?.links,
+      ...newLinks
+    };
+
+    const cacheData: ThreadMapCache = {
+      roomId,
+      lastUpdated: new Date().toISOString(),
+      links: merged
+    };
+
+    // ディレクトリがなければ作成
+    const dir = dirname(cachePath);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+    }
+
+    await writeFile(cachePath, JSON.stringify(cacheData, null, 2), 'utf-8');
+
+    const replyCount = Object.values(merged).filter(link => link.parent_message_id).length;
+    const quoteCount = Object.values(merged).filter(link => link.quotes.length > 0).length;
+    this.logger.info(`保存完了: 返信${replyCount}件, 引用${quoteCount}件`);
+  }
+
+  /**
+   * message_idからスレッド情報を取得
+   */
+  async getThreadLink(roomId: string, messageId: string): Promise<ThreadLink | null> {
+    const cache = await this.load(roomId);
+    return cache?.links[messageId] || null;
+  }
+}
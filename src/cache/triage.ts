@@ -0,0 +1,122 @@
+import { join, dirname } from 'path';
+import { existsSync } from 'fs';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import type { ChatworkMessage } from '../chatwork/client.js';
+import type { TriageBatchJob, TriageJudgement } from '../claude/triage.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * トリアージの判定結果（メッセージごと）
+ */
+export interface TriageVerdict extends TriageJudgement {
+  model: string;         // 判定したモデル（変更した場合は再判定）
+  update_time: number;   // 判定した時点のメッセージの更新日時（編集された場合は再判定）
+  judged_at: string;     // 判定日時（ISO 8601）
+}
+
+export interface TriageCache {
+  roomId: string;
+  lastUpdated: string;
+  verdicts: Record<string, TriageVerdict>;  // message_id → 判定結果
+  pendingBatches?: TriageBatchJob[];        // 結果を回収していないBatch（回収後に削除）
+}
+
+/**
+ * トリアージの判定結果を管理するクラス
+ * 知見なしと判定したメッセージを毎回の実行で判定し直さないよう、ルームごとに保存する
+ */
+export class TriageCacheManager {
+  private cacheDir: string;
+  private logger: Logger;
+
+  constructor(cacheDir: string = './cache') {
+    this.cacheDir = cacheDir;
+    this.logger = new Logger('Triage');
+  }
+
+  private getCachePath(roomId: string): string {
+    return join(this.cacheDir, `triage_${roomId}.json`);
+  }
+
+  private async loadCache(roomId: string): Promise<TriageCache | null> {
+    const cachePath = this.getCachePath(roomId);
+    if (!existsSync(cachePath)) {
+      return null;
+    }
+
+    try {
+      const content = await readFile(cachePath, 'utf-8');
+      return JSON.parse(content) as TriageCache;
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      this.logger.error(`読み込みエラー: ${errorMsg}`, e);
+      return null;
+    }
+  }
+
+  /**
+   * 判定結果を読み込む
+   */
+  async load(roomId: string): Promise<Record<string, TriageVerdict>> {
+    return (await this.loadCache(roomId))?.verdicts ?? {};
+  }
+
+  /**
+   * 判定結果を保存（既存とマージ）
+   */
+  async save(roomId: string, verdicts: Record<string, TriageVerdict>): Promise<void> {
+    const cache = await this.loadCache(roomId);
+    await this.write(roomId, { ...cache?.verdicts, ...verdicts }, cache?.pendingBatches ?? []);
+  }
+
+  /**
+   * 結果を回収していないBatchを取得（送信日時の古い順）
+   */
+  async listPendingBatches(roomId: string): Promise<TriageBatchJob[]> {
+    const jobs = (await this.loadCache(roomId))?.pendingBatches ?? [];
+    return [...jobs].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * 送信したBatchを記録（完了を待てなかった場合も次回の実行で回収できるようにする）
+   */
+  async addPendingBatch(roomId: string, job: TriageBatchJob): Promise<void> {
+    const cache = await this.loadCache(roomId);
+    await this.write(roomId, cache?.verdicts ?? {}, [...(cache?.pendingBatches ?? []), job]);
+    this.logger.info(`Batchを記録: ${job.batchId}（${job.messageIds.length}件のメッセージ）`);
+  }
+
+  /**
+   * 結果を回収したBatchの記録を削除
+   */
+  async removePendingBatch(roomId: string, batchId: string): Promise<void> {
+    const cache = await this.loadCache(roomId);
+    if (!cache?.pendingBatches?.some(job => job.batchId === batchId)) {
+      return;
+    }
+    await this.write(roomId, cache.verdicts, cache.pendingBatches.filter(job => job.batchId !== batchId));
+  }
+
+  private async write(roomId: string, verdicts: Record<string, TriageVerdict>, pendingBatches: TriageBatchJob[]): Promise<void> {
+    const cachePath = this.getCachePath(roomId);
+    const dir = dirname(cachePath);
+    if (!existsSync(dir)) {
+      await mkdir(dir, { recursive: true });
+    }
+
+    const cache: TriageCache = {
+      roomId,
+      lastUpdated: new Date().toISOString(),
+      verdicts,
+      ...(pendingBatches.length > 0 && { pendingBatches })
+    };
+    await writeFile(cachePath, JSON.stringify(cache, null, 2), 'utf-8');
+  }
+}
+
+/**
+ * 判定結果がメッセージの現在の内容・モデルに対して有効か
+ */
+export function isVerdictValid(verdict: TriageVerdict | undefined, message: ChatworkMessage, model: string): verdict is TriageVerdict {
+  return verdict !== undefined && verdict.model === model && verdict.update_time === message.update_time;
+}
@@ -1,17 +1,64 @@
-import fetch from 'node-fetch';
+import fetch, { type Response } from 'node-fetch';
 import { MessageCacheManager } from '../cache/messages.js';
+import { TaskCacheManager, type CachedTask } from '../cache/tasks.js';
+import { FileCacheManager } from '../cache/files.js';
+import type { HistoryGap } from '../cache/gaps.js';
 import { Logger } from '../utils/logger.js';
+import { filterMessagesByDateRange, filterMessagesByExtractFrom } from '../utils/extractFrom.js';
+
+/**
+ * 知見の取得元の種別
+ * - message: チャットのメッセージ
+ * - task: ルームのタスク
+ */
+export type SourceKind = 'message' | 'task';
+
+export interface ChatworkAccount {
+  account_id: number;
+  name: string;
+  avatar_image_url: string;
+}
 
 export interface ChatworkMessage {
   message_id: string;
-  account: {
-    account_id: number;
-    name: string;
-    avatar_image_url: string;
-  };
+  account: ChatworkAccount;
   body: string;
   send_time: number;
   update_time: number;
+  source_kind?: SourceKind;  // 未設定の場合はmessage（APIレスポンスには含まれない）
+  imported_from?: string;    // エクスポートファイルから取り込んだ場合のファイル名
+  parent_message_id?: string;  // ソース側で返信先が分かる場合（Slackのスレッドなど）
+}
+
+export interface ChatworkTask {
+  task_id: number;
+  account: ChatworkAccount;              // 担当者
+  assigned_by_account: ChatworkAccount;  // 依頼者
+  message_id: string;                    // タスクが作成されたメッセージ
+  body: string;
+  limit_time: number;                    // 期限（UNIX時間、期限なしは0）
+  status: 'open' | 'done';
+  limit_type?: 'none' | 'date' | 'time';
+}
+
+export interface ChatworkFile {
+  file_id: number;
+  account: ChatworkAccount;  // アップロードした人
+  message_id: string;        // 添付されたメッセージ
+  filename: string;
+  filesize: number;          // バイト数
+  upload_time: number;       // UNIX時間
+}
+
+export interface ChatworkMember {
+  account_id: number;
+  role: 'admin' | 'member' | 'readonly';  // ルームでの権限
+  name: string;
+  chatwork_id: string;
+  organization_id: number;
+  organization_name: string;
+  department: string;
+  avatar_image_url: string;
 }
 
 export interface FetchResult {
@@ -19,47 +66,87 @@ export interface FetchResult {
   warnings: string[];
   isFirstRun: boolean;
   apiMessageCount: number;
+  updatedMessageIds: string[];  // 前回取得後に編集されたメッセージ（再分析の対象）
+  gaps: HistoryGap[];           // 今回検出した欠落の可能性がある期間
 }
 
 export interface RoomInfo {
   room_id: number;
   name: string;
   type: 'my' | 'direct' | 'group';
+  role?: 'admin' | 'member' | 'readonly';
   icon_path: string;
-  description: string;
+  description?: string;  // GET /rooms（一覧）のレスポンスには含まれない
+  last_update_time?: number;
 }
 
+/**
+ * レスポンスヘッダーから取得したレート制限の状態
+ */
+export interface RateLimitState {
+  limit: number | null;
+  remaining: number | null;
+  resetAt: number | null;  // UNIX時間（秒）
+}
+
+const MAX_RETRIES = 4;              // 429/5xx/通信エラー時の最大リトライ回数
+const RETRY_BASE_DELAY_MS = 1000;   // バックオフの初期待機時間（1秒 → 2秒 → 4秒 → 8秒）
+const RETRY_MAX_DELAY_MS = 60000;   // バックオフの上限
+const MAX_RATE_LIMIT_WAIT_MS = 5 * 60 * 1000;  // リセット待ちの上限（Chatworkの制限単位は5分）
+
 export class ChatworkClient {
   private apiToken: string;
   private baseUrl = 'https://api.chatwork.com/v2';
   private cacheManager: MessageCacheManager;
+  private taskCacheManager: TaskCacheManager;
+  private fileCacheManager: FileCacheManager;
   private logger: Logger;
+  private rateLimit: RateLimitState = { limit: null, remaining: null, resetAt: null };
+  private roomInfoCache = new Map<string, RoomInfo>();
 
   constructor(apiToken: string, cacheDir: string = './cache') {
     this.apiToken = apiToken;
     this.cacheManager = new MessageCacheManager(cacheDir);
+    this.taskCacheManager = new TaskCacheManager(cacheDir);
+    this.fileCacheManager = new FileCacheManager(cacheDir);
     this.logger = new Logger('Chatwork');
   }
 
   /**
-   * ルーム情報を取得
+   * 参加しているルームの一覧を取得
+   * 取得したルーム情報は実行中キャッシュにも格納する
    */
-  async getRoomInfo(roomId: string): Promise<RoomInfo> {
-    const url = `${this.baseUrl}/rooms/${roomId}`;
+  async getRooms(): Promise<RoomInfo[]> {
+    const rooms = await this.requestJson<RoomInfo[]>('/rooms') ?? [];
+    for (const room of rooms) {
+      this.roomInfoCache.set(String(room.room_id), room);
+    }
+    return rooms;
+  }
 
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'x-chatworktoken': this.apiToken,
-        'Accept': 'application/json'
-      }
-    });
+  /**
+   * ルーム情報を取得（同一実行内ではキャッシュを返す）
+   */
+  async getRoomInfo(roomId: string): Promise<RoomInfo> {
+    const cached = this.roomInfoCache.get(roomId);
+    if (cached) {
+      return cached;
+    }
 
-    if (!response.ok) {
-      throw new Error(`Chatwork API Error: ${response.status} ${response.statusText}`);
+    const roomInfo = await this.requestJson<RoomInfo>(`/rooms/${roomId}`);
+    if (!roomInfo) {
+      throw new Error(`Chatwork API Error: ルーム情報が空です (room_id: ${roomId})`);
     }
+    this.roomInfoCache.set(roomId, roomInfo);
+    return roomInfo;
+  }
 
-    return await response.json() as RoomInfo;
+  /**
+   * ルームのメンバー一覧を取得
+   */
+  async getMembers(roomId: string): Promise<ChatworkMember[]> {
+    const members = await this.requestJson<ChatworkMember[]>(`/rooms/${roomId}/members`);
+    return members ?? [];
   }
 
   /**
@@ -67,36 +154,172 @@ export class ChatworkClient {
    * force=1で最新100件、force=0で前回取得以降の差分
    */
   async getMessages(roomId: string, force: 0 | 1 = 1): Promise<ChatworkMessage[]> {
-    const url = `${this.baseUrl}/rooms/${roomId}/messages?force=${force}`;
+    const messages = await this.requestJson<ChatworkMessage[]>(`/rooms/${roomId}/messages?force=${force}`);
+
+    // レート制限情報をログ出力
+    this.logger.info(`API レート制限: ${this.rateLimit.remaining}/${this.rateLimit.limit}`);
 
-    const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'x-chatworktoken': this.apiToken,
-        'Accept': 'application/json'
+    // 204 No Content（新着なし）は空配列
+    return messages ?? [];
+  }
+
+  /**
+   * 指定したルームのタスクを取得（ステータスごとに最大100件）
+   */
+  async getTasks(roomId: string, status: ChatworkTask['status']): Promise<ChatworkTask[]> {
+    const tasks = await this.requestJson<ChatworkTask[]>(`/rooms/${roomId}/tasks?status=${status}`);
+    return tasks ?? [];
+  }
+
+  /**
+   * 未完了・完了済みのタスクを取得してキャッシュにマージ
+   * 完了済みタスクはAPIから取得できる件数に上限があるため、キャッシュに蓄積する
+   */
+  async getAllTasks(roomId: string): Promise<CachedTask[]> {
+    const openTasks = await this.getTasks(roomId, 'open');
+    const doneTasks = await this.getTasks(roomId, 'done');
+    this.logger.info(`タスク取得: 未完了${openTasks.length}件, 完了${doneTasks.length}件`);
+
+    return this.taskCacheManager.merge(roomId, [...openTasks, ...doneTasks]);
+  }
+
+  /**
+   * 指定したルームのファイル一覧（メタデータのみ、最大100件）を取得
+   */
+  async getFiles(roomId: string): Promise<ChatworkFile[]> {
+    const files = await this.requestJson<ChatworkFile[]>(`/rooms/${roomId}/files`);
+    return files ?? [];
+  }
+
+  /**
+   * ファイル一覧を取得してキャッシュにマージ
+   * APIは最新100件までしか返さないため、キャッシュに蓄積して古いファイルも名前解決できるようにする
+   */
+  async getAllFiles(roomId: string): Promise<ChatworkFile[]> {
+    const files = await this.getFiles(roomId);
+    this.logger.info(`ファイル情報取得: ${files.length}件`);
+
+    return this.fileCacheManager.merge(roomId, files);
+  }
+
+  /**
+   * 直近のレスポンスから取得したレート制限の状態
+   */
+  getRateLimitState(): RateLimitState {
+    return { ...this.rateLimit };
+  }
+
+  /**
+   * Chatwork APIへのGETリクエスト（全APIで共通のリクエスト層）
+   * - 残りリクエスト数が0ならx-ratelimit-resetまで待機してから送信
+   * - 429・5xx・通信エラーは指数バックオフでリトライ
+   */
+  private async request(path: string): Promise<Response> {
+    const url = `${this.baseUrl}${path}`;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimitReset();
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'GET',
+          headers: {
+            'x-chatworktoken': this.apiToken,
+            'Accept': 'application/json'
+          }
+        });
+      } catch (e) {
+        if (attempt >= MAX_RETRIES) {
+          throw e;
+        }
+        const delay = this.getBackoffDelay(attempt);
+        const errorMsg = e instanceof Error ? e.message : String(e);
+        this.logger.warn(`通信エラー: ${errorMsg} - ${Math.ceil(delay / 1000)}秒後にリトライします (${attempt + 1}/${MAX_RETRIES})`);
+        await this.sleep(delay);
+        continue;
       }
-    });
 
-    // レート制限情報をログ出力
-    const remaining = response.headers.get('x-ratelimit-remaining');
-    const limit = response.headers.get('x-ratelimit-limit');
-    this.logger.info(`API レート制限: ${remaining}/${limit}`);
-
-    if (!response.ok) {
-      // 204 No Content は空配列を返す
-      if (response.status === 204) {
-        return [];
+      this.updateRateLimit(response);
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (retryable && attempt < MAX_RETRIES) {
+        // 429はレート制限のリセット時刻まで、5xxは指数バックオフで待機
+        const delay = response.status === 429
+          ? this.getRateLimitWait() ?? this.getBackoffDelay(attempt)
+          : this.getBackoffDelay(attempt);
+        this.logger.warn(`Chatwork API ${response.status} ${response.statusText} - ${Math.ceil(delay / 1000)}秒後にリトライします (${attempt + 1}/${MAX_RETRIES})`);
+        await this.sleep(delay);
+        continue;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Chatwork API Error: ${response.status} ${response.statusText}`);
       }
-      throw new Error(`Chatwork API Error: ${response.status} ${response.statusText}`);
+
+      return response;
     }
+  }
 
-    // 204の場合はjsonがないので空配列
+  /**
+   * GETリクエストを送信してJSONをパース（204 No Content・空ボディはnull）
+   */
+  private async requestJson<T>(path: string): Promise<T | null> {
+    const response = await this.request(path);
     const text = await response.text();
     if (!text) {
-      return [];
+      return null;
     }
+    return JSON.parse(text) as T;
+  }
+
+  /**
+   * レスポンスヘッダーからレート制限の状態を更新
+   */
+  private updateRateLimit(response: Response): void {
+    const parseHeader = (name: string): number | null => {
+      const value = response.headers.get(name);
+      if (value === null) return null;
+      const parsed = Number.parseInt(value, 10);
+      return Number.isNaN(parsed) ? null : parsed;
+    };
 
-    return JSON.parse(text) as ChatworkMessage[];
+    this.rateLimit = {
+      limit: parseHeader('x-ratelimit-limit') ?? this.rateLimit.limit,
+      remaining: parseHeader('x-ratelimit-remaining') ?? this.rateLimit.remaining,
+      resetAt: parseHeader('x-ratelimit-reset') ?? this.rateLimit.resetAt
+    };
+  }
+
+  /**
+   * レート制限のリセットまでの待機時間（ミリ秒）。リセット時刻が不明・経過済みならnull
+   */
+  private getRateLimitWait(): number | null {
+    if (this.rateLimit.resetAt === null) return null;
+    const waitMs = this.rateLimit.resetAt * 1000 - Date.now() + 1000; // 時計のずれを考慮して1秒余分に待つ
+    if (waitMs <= 0) return null;
+    return Math.min(waitMs, MAX_RATE_LIMIT_WAIT_MS);
+  }
+
+  /**
+   * 残りリクエスト数を使い切っている場合はリセットまで待機
+   */
+  private async waitForRateLimitReset(): Promise<void> {
+    if (this.rateLimit.remaining === null || this.rateLimit.remaining > 0) return;
+
+    const waitMs = this.getRateLimitWait();
+    if (waitMs === null) return;
+
+    this.logger.warn(`APIレート制限に到達しました。リセットまで${Math.ceil(waitMs / 1000)}秒待機します`);
+    await this.sleep(waitMs);
+    this.rateLimit.remaining = null;
+  }
+
+  /**
+   * 指数バックオフの待機時間（ミリ秒）
+   */
+  private getBackoffDelay(attempt: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** attempt, RETRY_MAX_DELAY_MS);
   }
 
   /**
@@ -104,20 +327,22 @@ export class ChatworkClient {
    * 初回: force=1で最新100件を取得してキャッシュ
    * 2回目以降: force=0で差分取得してキャッシュにマージ
    */
-  async getAllMessages(roomId: string, maxMessages: number = 500): Promise<FetchResult> {
+  async getAllMessages(roomId: string, maxMessages: number = 500, runId: string = new Date().toISOString()): Promise<FetchResult> {
     const warnings: string[] = [];
+    const gaps: HistoryGap[] = [];
 
     // キャッシュの統計情報を表示
     await this.cacheManager.showStats(roomId);
 
     // 既存キャッシュを読み込み
+    // エクスポートファイルから取り込んだメッセージしかない場合も、APIからは初回取得として扱う
     const existingCache = await this.cacheManager.load(roomId);
-    const isFirstRun = !existingCache;
+    const isFirstRun = !existingCache || existingCache.messages.every(m => m.imported_from);
 
     if (isFirstRun) {
       this.logger.info(`初回実行: 最新100件を取得します`);
     } else {
-      this.logger.info(`差分取得: キャッシュに${existingCache.messages.length}件あり`);
+      this.logger.info(`差分取得: キャッシュに${existingCache!.messages.length}件あり`);
     }
 
     // メッセージ取得
@@ -129,7 +354,12 @@ export class ChatworkClient {
     this.logger.info(`API取得: ${apiMessageCount}件`);
 
     // 100件制限の警告チェック
-    if (apiMessageCount >= 100) {
+    // 取得できた最古のメッセージがキャッシュ済みの最新のメッセージより新しければ、その間が欠けている可能性がある
+    const gap = apiMessageCount >= 100
+      ? this.detectGap(existingCache?.messages ?? [], newMessages, isFirstRun, runId)
+      : null;
+    if (gap) {
+      gaps.push(gap);
       if (isFirstRun) {
         warnings.push(
           '⚠️ 初回取得で100件の上限に達しました。これより古いメッセージは取得できません。' +
@@ -145,18 +375,27 @@ export class ChatworkClient {
 
     // マージ
     let allMessages: ChatworkMessage[];
-    if (isFirstRun) {
+    let updatedMessageIds: string[] = [];
+    if (!existingCache) {
       allMessages = newMessages;
     } else {
-      allMessages = this.cacheManager.mergeMessages(
+      const mergeResult = this.cacheManager.mergeMessages(
         existingCache.messages,
         newMessages
       );
+      allMessages = mergeResult.messages;
+      updatedMessageIds = mergeResult.updatedIds;
     }
 
     // キャッシュを保存
     await this.cacheManager.save(roomId, allMessages);
 
+    // 編集されたメッセージは再分析の対象に戻す
+    await this.cacheManager.invalidateAnalysis(roomId, updatedMessageIds);
+
+    // 欠落の可能性がある期間をキャッシュに記録（実行後も参照できるように）
+    await this.cacheManager.recordGaps(roomId, gaps);
+
     // maxMessagesで制限
     if (allMessages.length > maxMessages) {
       this.logger.info(`${maxMessages}件に制限`);
@@ -169,7 +408,38 @@ export class ChatworkClient {
       messages: allMessages,
       warnings,
       isFirstRun,
-      apiMessageCount
+      apiMessageCount,
+      updatedMessageIds,
+      gaps
+    };
+  }
+
+  /**
+   * 100件の上限に達した取得結果から、欠落の可能性がある期間を求める
+   * キャッシュ済みの最新メッセージと取得結果が重なっていれば欠落はない
+   */
+  private detectGap(
+    cachedMessages: ChatworkMessage[],
+    fetchedMessages: ChatworkMessage[],
+    isFirstRun: boolean,
+    runId: string
+  ): HistoryGap | null {
+    const oldestFetched = fetchedMessages.reduce((min, m) => Math.min(min, m.send_time), Infinity);
+    const newestCached = cachedMessages.reduce<number | null>(
+      (max, m) => (max === null || m.send_time > max ? m.send_time : max),
+      null
+    );
+
+    if (newestCached !== null && newestCached >= oldestFetched) {
+      return null;
+    }
+
+    return {
+      from: newestCached,
+      to: oldestFetched,
+      reason: isFirstRun ? 'initial_limit' : 'diff_limit',
+      detected_at: new Date().toISOString(),
+      run_id: runId
     };
   }
 
@@ -177,8 +447,7 @@ export class ChatworkClient {
    * 期間を指定してメッセージをフィルタ（日数指定）
    */
   filterByDateRange(messages: ChatworkMessage[], daysBack: number): ChatworkMessage[] {
-    const cutoffTime = Math.floor(Date.now() / 1000) - (daysBack * 24 * 60 * 60);
-    return messages.filter(msg => msg.send_time >= cutoffTime);
+    return filterMessagesByDateRange(messages, daysBack);
   }
 
   /**
@@ -187,32 +456,7 @@ export class ChatworkClient {
    * - 日付形式（YYYY-MM-DD）: 指定日以降
    */
   filterByExtractFrom(messages: ChatworkMessage[], extractFrom: string): { messages: ChatworkMessage[]; description: string } {
-    // 日付形式かどうかをチェック（YYYY-MM-DD）
-    const dateMatch = extractFrom.match(/^(\d{4})-(\d{2})-(\d{2})$/);
-
-    if (dateMatch) {
-      // 日付形式の場合（ローカル日付の0時として解釈）
-      const [, year, month, day] = dateMatch;
-      const fromDate = new Date(Number(year), Number(month) - 1, Number(day), 0, 0, 0, 0);
-      const cutoffTime = Math.floor(fromDate.getTime() / 1000);
-      const filtered = messages.filter(msg => msg.send_time >= cutoffTime);
-      return {
-        messages: filtered,
-        description: `${extractFrom}以降`
-      };
-    } else {
-      // 数字（日数）の場合
-      const days = parseInt(extractFrom, 10);
-      if (isNaN(days)) {
-        this.logger.warn(`EXTRACT_FROM の形式が不正です: ${extractFrom}`);
-        return { messages, description: '全期間' };
-      }
-      const filtered = this.filterByDateRange(messages, days);
-      return {
-        messages: filtered,
-        description: `過去${days}日`
-      };
-    }
+    return filterMessagesByExtractFrom(messages, extractFrom);
   }
 
   private sleep(ms: number): Promise<void> {
@@ -0,0 +1,72 @@
+/**
+ * メッセージ内の添付ファイル参照（[download:FILE_ID] / [preview id=FILE_ID ht=..]）の解決
+ */
+
+import type { ChatworkFile } from './client.js';
+
+/**
+ * 知見が参照している添付ファイル
+ * ファイル一覧のキャッシュにない場合はfile_idのみ
+ */
+export interface ReferencedFile {
+  file_id: string;
+  filename?: string;
+  filesize?: number;
+  upload_time?: number;
+}
+
+const DOWNLOAD_TAG_PATTERN = /\[download:(\d+)\]/g;
+const PREVIEW_TAG_PATTERN = /\[preview id=(\d+)(?: ht=\d+)?\]/g;
+
+/**
+ * 本文から参照されているfile_idを抽出（出現順、重複なし）
+ */
+export function extractFileIds(body: string): string[] {
+  const ids: string[] = [];
+  for (const match of body.matchAll(DOWNLOAD_TAG_PATTERN)) {
+    ids.push(match[1]);
+  }
+  for (const match of body.matchAll(PREVIEW_TAG_PATTERN)) {
+    ids.push(match[1]);
+  }
+  return [...new Set(ids)];
+}
+
+/**
+ * 本文の添付ファイルタグをファイル名に置き換える（分析用）
+ * 例: [download:123] → [添付ファイル: チェックリスト.xlsx]
+ * ファイル名が分からないタグはそのまま残す（記法パーサーで「添付ファイル」と表示される）
+ */
+export function resolveFileReferences(body: string, fileMap: Map<string, ChatworkFile>): string {
+  const downloadIds = new Set(Array.from(body.matchAll(DOWNLOAD_TAG_PATTERN), m => m[1]));
+
+  return body
+    .replace(DOWNLOAD_TAG_PATTERN, (tag, fileId: string) => {
+      const file = fileMap.get(fileId);
+      return file ? `[添付ファイル: ${file.filename}]` : tag;
+    })
+    .replace(PREVIEW_TAG_PATTERN, (tag, fileId: string) => {
+      // 同じファイルの[download]があればプレビューは重複なので除去
+      if (downloadIds.has(fileId)) return '';
+      const file = fileMap.get(fileId);
+      return file ? `[添付ファイル: ${file.filename}]` : tag;
+    });
+}
+
+/**
+ * 本文が参照している添付ファイルの一覧を作成
+ */
+export function collectReferencedFiles(body: string, fileMap: Map<string, ChatworkFile>): ReferencedFile[] {
+  return extractFileIds(body).map(fileId => {
+    const file = fileMap.get(fileId);
+    if (!file) {
+      return { file_id: fileId };
+    }
+    return {
+      file_id: fileId,
+      filename: file.filename,
+      filesize: file.filesize,
+      upload_time: file.upload_time
+    };
+  });
+}
@@ -0,0 +1,404 @@
+/**
+ * Chatworkのエクスポートファイル（CSV / テキスト / JSON）をChatworkMessageに変換
+ *
+ * APIでは最新100件より古いメッセージを取得できないため、
+ * 管理者がダウンロードしたエクスポートファイルから過去の履歴を取り込む
+ */
+
+import { createHash } from 'crypto';
+import { extname, basename } from 'path';
+import type { ChatworkAccount, ChatworkMessage } from './client.js';
+import { isRecord } from '../claude/schema.js';
+
+export type ImportFormat = 'csv' | 'text' | 'json';
+
+/**
+ * エクスポートファイルから読み取った1件分のメッセージ（正規化前）
+ */
+export interface ImportedRecord {
+  message_id?: string;
+  account_id?: number;
+  name: string;
+  body: string;
+  send_time: number;  // UNIX時間（秒）
+}
+
+/**
+ * JSON形式のインポートファイル
+ * messagesはChatworkMessage形式、またはaccount_id/name/send_timeを平坦に持つ形式のどちらでも可
+ */
+export interface ImportJsonFile {
+  room_id?: string | number;
+  messages: unknown[];
+}
+
+export interface ImportResult {
+  roomId?: string;  // JSONにroom_idが含まれていた場合
+  records: ImportedRecord[];
+  skipped: number;  // 日時・本文を読み取れなかった行
+}
+
+/**
+ * タイムゾーン指定のない日時の解釈（Chatworkのエクスポートは日本時間）
+ */
+export const DEFAULT_IMPORT_UTC_OFFSET = '+09:00';
+
+/**
+ * 合成message_idのプレフィックス（エクスポートにIDが含まれない場合）
+ */
+export const IMPORTED_MESSAGE_ID_PREFIX = 'import_';
+
+// CSVヘッダーの候補（小文字・空白除去後に比較）
+const CSV_COLUMNS = {
+  messageId: ['message_id', 'messageid', 'メッセージid', 'id'],
+  accountId: ['account_id', 'accountid', 'アカウントid', 'userid'],
+  name: ['name', 'account_name', 'sender', '送信者', '送信者名', '名前', '氏名', 'ユーザー名'],
+  body: ['body', 'message', 'text', '本文', 'メッセージ', '内容'],
+  sendTime: ['send_time', 'sendtime', 'date', 'datetime', 'time', '送信日時', '日時', '投稿日時']
+};
+
+// テキスト形式のメッセージ見出し: [2024/01/15 10:30] 山田 太郎 / 2024/01/15 10:30:00 山田 太郎
+const TEXT_HEADER_PATTERN = /^\[?(\d{4}[/-]\d{1,2}[/-]\d{1,2}[ T]\d{1,2}:\d{2}(?::\d{2})?)\]?\s+(.+?)\s*$/;
+const TEXT_SEPARATOR_PATTERN = /^-{3,}$/;
+
+/**
+ * ファイルの拡張子から形式を判定
+ */
+export function detectImportFormat(filePath: string): ImportFormat | null {
+  const ext = extname(filePath).toLowerCase();
+  if (ext === '.csv') return 'csv';
+  if (ext === '.txt') return 'text';
+  if (ext === '.json') return 'json';
+  return null;
+}
+
+export function isImportFormat(value: string): value is ImportFormat {
+  return value === 'csv' || value === 'text' || value === 'json';
+}
+
+/**
+ * エクスポートファイルの内容をパース
+ */
+export function parseExportFile(content: string, format: ImportFormat): ImportResult {
+  // BOM付きUTF-8（Excelで保存したCSVなど）に対応
+  const text = content.replace(/^\uFEFF/, '');
+  switch (format) {
+    case 'csv':
+      return parseCsvExport(text);
+    case 'text':
+      return parseTextExport(text);
+    case 'json':
+      return parseJsonExport(text);
+  }
+}
+
+/**
+ * CSV形式のエクスポートをパース（1行目はヘッダー）
+ */
+export function parseCsvExport(content: string): ImportResult {
+  const rows = parseCsv(content);
+  if (rows.length === 0) {
+    return { records: [], skipped: 0 };
+  }
+
+  const header = rows[0].map(h => h.trim().toLowerCase().replace(/\s+/g, ''));
+  const findColumn = (candidates: string[]) => header.findIndex(h => candidates.includes(h));
+  const columns = {
+    messageId: findColumn(CSV_COLUMNS.messageId),
+    accountId: findColumn(CSV_COLUMNS.accountId),
+    name: findColumn(CSV_COLUMNS.name),
+    body: findColumn(CSV_COLUMNS.body),
+    sendTime: findColumn(CSV_COLUMNS.sendTime)
+  };
+
+  if (columns.body === -1 || columns.sendTime === -1) {
+    throw new Error(`CSVのヘッダーに本文・送信日時の列が見つかりません: ${rows[0].join(', ')}`);
+  }
+
+  const records: ImportedRecord[] = [];
+  let skipped = 0;
+
+  for (const row of rows.slice(1)) {
+    if (row.every(cell => cell.trim() === '')) continue;
+
+    const sendTime = parseExportTime(row[columns.sendTime] ?? '');
+    const body = row[columns.body] ?? '';
+    if (sendTime === null || body.trim() === '') {
+      skipped++;
+      continue;
+    }
+
+    const accountId = columns.accountId !== -1 ? Number.parseInt(row[columns.accountId], 10) : NaN;
+    records.push({
+      message_id: columns.messageId !== -1 && row[columns.messageId]?.trim() ? row[columns.messageId].trim() : undefined,
+      account_id: Number.isNaN(accountId) ? undefined : accountId,
+      name: columns.name !== -1 ? (row[columns.name] ?? '').trim() : '',
+      body,
+      send_time: sendTime
+    });
+  }
+
+  return { records, skipped };
+}
+
+/**
+ * テキスト形式のエクスポートをパース
+ * 「日時 + 送信者名」の見出し行から次の見出し行（または区切り線）までを1件の本文とする
+ */
+export function parseTextExport(content: string): ImportResult {
+  const records: ImportedRecord[] = [];
+  let current: { name: string; sendTime: number; lines: string[] } | null = null;
+  let skipped = 0;
+
+  const flush = () => {
+    if (!current) return;
+    const body = current.lines.join('\n').trim();
+    if (body) {
+      records.push({ name: current.name, body, send_time: current.sendTime });
+    } else {
+      skipped++;
+    }
+    current = null;
+  };
+
+  for (const line of content.split(/\r?\n/)) {
+    if (TEXT_SEPARATOR_PATTERN.test(line.trim())) {
+      flush();
+      continue;
+    }
+
+    const header = line.match(TEXT_HEADER_PATTERN);
+    const sendTime = header ? parseExportTime(header[1]) : null;
+    if (header && sendTime !== null) {
+      flush();
+      current = { name: header[2], sendTime, lines: [] };
+      continue;
+    }
+
+    current?.lines.push(line);
+  }
+  flush();
+
+  return { records, skipped };
+}
+
+/**
+ * JSON形式のインポートファイルをパース
+ * { "room_id": "...", "messages": [...] } または messages の配列のみ
+ */
+export function parseJsonExport(content: string): ImportResult {
+  const data: unknown = JSON.parse(content);
+  const file = Array.isArray(data) ? { messages: data } : data;
+
+  if (!isRecord(file) || !Array.isArray(file.messages)) {
+    throw new Error('JSONに messages 配列がありません');
+  }
+
+  const records: ImportedRecord[] = [];
+  let skipped = 0;
+
+  for (const item of file.messages) {
+    if (!isRecord(item)) {
+      skipped++;
+      continue;
+    }
+    const account = isRecord(item.account) ? item.account as Partial<ChatworkAccount> : undefined;
+    const sendTime = parseExportTime(item.send_time);
+    const body = typeof item.body === 'string' ? item.body : '';
+    if (sendTime === null || body.trim() === '') {
+      skipped++;
+      continue;
+    }
+
+    const accountId = Number(account?.account_id ?? item.account_id);
+    records.push({
+      message_id: item.message_id !== undefined ? String(item.message_id) : undefined,
+      account_id: Number.isFinite(accountId) ? accountId : undefined,
+      name: String(account?.name ?? item.name ?? ''),
+      body,
+      send_time: sendTime
+    });
+  }
+
+  return {
+    roomId: file.room_id !== undefined ? String(file.room_id) : undefined,
+    records,
+    skipped
+  };
+}
+
+/**
+ * エクスポートの日時をUNIX時間（秒）に変換
+ * - UNIX時間（秒 / ミリ秒）
+ * - YYYY/MM/DD HH:mm(:ss)、YYYY-MM-DD HH:mm(:ss)（タイムゾーン指定なしは日本時間）
+ * - ISO 8601（タイムゾーン指定あり）
+ */
+export function parseExportTime(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? normalizeUnixTime(value) : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return normalizeUnixTime(Number(trimmed));
+  }
+
+  const local = trimmed.match(/^(\d{4})[/-](\d{1,2})[/-](\d{1,2})[ T](\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (local) {
+    const [, year, month, day, hour, minute, second] = local;
+    const iso = `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${minute}:${second ?? '00'}${DEFAULT_IMPORT_UTC_OFFSET}`;
+    return toUnixTime(new Date(iso));
+  }
+
+  return toUnixTime(new Date(trimmed));
+}
+
+/**
+ * インポートしたレコードをChatworkMessageに変換
+ * - message_idがない場合は送信日時・送信者・本文から安定したIDを合成（再インポートで重複しない）
+ * - account_idがない場合は既知の発言者名から引き当て、なければ名前から合成した負のIDを使う
+ */
+export function toChatworkMessages(
+  records: ImportedRecord[],
+  knownAccounts: Map<string, ChatworkAccount>,
+  sourceName: string
+): ChatworkMessage[] {
+  return records.map(record => {
+    const account = resolveAccount(record, knownAccounts);
+    return {
+      message_id: record.message_id ?? createImportedMessageId(record),
+      account,
+      body: record.body,
+      send_time: record.send_time,
+      update_time: 0,
+      imported_from: basename(sourceName)
+    };
+  });
+}
+
+/**
+ * キャッシュ済みのメッセージと同じ内容（送信日時・本文が一致）のメッセージを除外
+ * APIで取得済みのメッセージを合成IDで二重に取り込まないため
+ */
+export function excludeCachedDuplicates(
+  imported: ChatworkMessage[],
+  cached: ChatworkMessage[]
+): { messages: ChatworkMessage[]; duplicates: number } {
+  const cachedKeys = new Set(cached.map(duplicateKey));
+  const messages = imported.filter(m => !cachedKeys.has(duplicateKey(m)));
+  return { messages, duplicates: imported.length - messages.length };
+}
+
+/**
+ * キャッシュ済みメッセージから 発言者名 → アカウント の対応表を作成
+ */
+export function buildKnownAccounts(messages: ChatworkMessage[]): Map<string, ChatworkAccount> {
+  const accounts = new Map<string, ChatworkAccount>();
+  for (const message of messages) {
+    if (message.account.name && !accounts.has(message.account.name)) {
+      accounts.set(message.account.name, message.account);
+    }
+  }
+  return accounts;
+}
+
+function resolveAccount(record: ImportedRecord, knownAccounts: Map<string, ChatworkAccount>): ChatworkAccount {
+  const known = record.name ? knownAccounts.get(record.name) : undefined;
+  if (record.account_id !== undefined) {
+    return {
+      account_id: record.account_id,
+      name: record.name || known?.name || '',
+      avatar_image_url: known?.account_id === record.account_id ? known.avatar_image_url : ''
+    };
+  }
+  if (known) {
+    return known;
+  }
+  return {
+    account_id: createImportedAccountId(record.name),
+    name: record.name,
+    avatar_image_url: ''
+  };
+}
+
+function createImportedMessageId(record: ImportedRecord): string {
+  const hash = createHash('sha1')
+    .update(`${record.send_time}\n${record.name}\n${record.body}`)
+    .digest('hex');
+  return `${IMPORTED_MESSAGE_ID_PREFIX}${hash.slice(0, 16)}`;
+}
+
+/**
+ * 発言者名から合成するaccount_id（実在のIDと衝突しないよう負の値）
+ */
+function createImportedAccountId(name: string): number {
+  const hash = createHash('sha1').update(name).digest();
+  return -(hash.readUInt32BE(0) % 1_000_000_000 + 1);
+}
+
+function duplicateKey(message: ChatworkMessage): string {
+  return `${message.send_time}\n${message.body.replace(/\r\n/g, '\n').trim()}`;
+}
+
+/**
+ * RFC 4180準拠のCSVパーサー（ダブルクォート内の改行・カンマ・""エスケープに対応）
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function normalizeUnixTime(value: number): number {
+  // 13桁はミリ秒とみなす
+  return value > 1e12 ? Math.floor(value / 1000) : Math.floor(value);
+}
+
+function toUnixTime(date: Date): number | null {
+  const time = date.getTime();
+  return Number.isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+function pad(value: string): string {
+  return value.padStart(2, '0');
+}
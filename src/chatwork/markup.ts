@@ -0,0 +1,320 @@
+/**
+ * Chatworkメッセージ記法のパーサーとレンダラー
+ *
+ * 本文中の [info][title]…[/title]…[/info], [code]…[/code], [To:123], [rp aid=.. to=..],
+ * [qt][qtmeta ..]…[/qt], [piconname:123], [hr], [download:123] などを構造化したASTに変換し、
+ * プロンプト用のプレーンテキスト・出力用のMarkdownにレンダリングする
+ */
+
+export type MarkupNode =
+  | { type: 'text'; value: string }
+  | { type: 'info'; title: MarkupNode[] | null; children: MarkupNode[] }
+  | { type: 'title'; children: MarkupNode[] }  // [info]の外に置かれた[title]
+  | { type: 'code'; value: string }
+  | { type: 'quote'; accountId: number | null; time: number | null; children: MarkupNode[] }
+  | { type: 'task'; children: MarkupNode[] }
+  | { type: 'to'; accountId: number }
+  | { type: 'toall' }
+  | { type: 'reply'; accountId: number; roomId: string; messageId: string }
+  | { type: 'picon'; accountId: number; withName: boolean }
+  | { type: 'hr' }
+  | { type: 'download'; fileId: string }
+  | { type: 'preview'; fileId: string };
+
+type ContainerType = 'info' | 'title' | 'quote' | 'task';
+
+interface OpenContainer {
+  type: ContainerType;
+  children: MarkupNode[];
+  accountId?: number | null;
+  time?: number | null;
+}
+
+export interface RenderOptions {
+  // account_id → 表示名（未指定・解決不可の場合は汎用ラベル）
+  resolveAccountName?: (accountId: number) => string | undefined;
+  // file_id → ファイル名（未指定・解決不可の場合は汎用ラベル）
+  resolveFileName?: (fileId: string) => string | undefined;
+}
+
+const TAG_PATTERN = /\[[^\[\]\n]+\]/g;
+
+/**
+ * Chatwork記法をASTに変換
+ * 閉じタグのないブロックは本文末尾で閉じたものとして扱う（切り詰め済み本文に対応）
+ */
+export function parseChatworkMarkup(body: string): MarkupNode[] {
+  const root: MarkupNode[] = [];
+  const stack: OpenContainer[] = [];
+  const current = (): MarkupNode[] => stack.length > 0 ? stack[stack.length - 1].children : root;
+
+  const pushText = (value: string) => {
+    if (!value) return;
+    const nodes = current();
+    const last = nodes[nodes.length - 1];
+    if (last && last.type === 'text') {
+      last.value += value;
+    } else {
+      nodes.push({ type: 'text', value });
+    }
+  };
+
+  const closeContainer = (): void => {
+    const container = stack.pop()!;
+    current().push(toNode(container));
+  };
+
+  let cursor = 0;
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TAG_PATTERN.exec(body)) !== null) {
+    const tag = match[0];
+    const inner = tag.slice(1, -1);
+    pushText(body.slice(cursor, match.index));
+    cursor = match.index + tag.length;
+
+    // [code]はネストした記法を解釈せず、[/code]までをそのまま保持
+    if (inner === 'code') {
+      const end = body.indexOf('[/code]', cursor);
+      const value = end === -1 ? body.slice(cursor) : body.slice(cursor, end);
+      current().push({ type: 'code', value: value.replace(/^\n/, '').replace(/\n$/, '') });
+      cursor = end === -1 ? body.length : end + '[/code]'.length;
+      TAG_PATTERN.lastIndex = cursor;
+      continue;
+    }
+
+    const containerOpen = parseContainerOpen(inner);
+    if (containerOpen) {
+      stack.push(containerOpen);
+      continue;
+    }
+
+    const closeMatch = inner.match(/^\/(info|title|qt|task)$/);
+    if (closeMatch) {
+      const type = closeMatch[1] === 'qt' ? 'quote' : closeMatch[1] as ContainerType;
+      // 対応する開始タグがあるところまで閉じる（なければ文字列として扱う）
+      if (stack.some(c => c.type === type)) {
+        while (stack[stack.length - 1].type !== type) {
+          closeContainer();
+        }
+        closeContainer();
+      } else {
+        pushText(tag);
+      }
+      continue;
+    }
+
+    // [qtmeta aid=.. time=..] は直近の引用ブロックの属性
+    const qtmetaMatch = inner.match(/^qtmeta aid=(\d+)(?: time=(\d+))?$/);
+    if (qtmetaMatch && stack.length > 0 && stack[stack.length - 1].type === 'quote') {
+      const quote = stack[stack.length - 1];
+      quote.accountId = Number(qtmetaMatch[1]);
+      quote.time = qtmetaMatch[2] ? Number(qtmetaMatch[2]) : null;
+      continue;
+    }
+
+    const inline = parseInlineTag(inner);
+    if (inline) {
+      current().push(inline);
+    } else {
+      pushText(tag);
+    }
+  }
+
+  pushText(body.slice(cursor));
+
+  while (stack.length > 0) {
+    closeContainer();
+  }
+
+  return root;
+}
+
+/**
+ * ブロック開始タグを判定
+ */
+function parseContainerOpen(inner: string): OpenContainer | null {
+  if (inner === 'info') return { type: 'info', children: [] };
+  if (inner === 'title') return { type: 'title', children: [] };
+  if (inner === 'qt') return { type: 'quote', children: [], accountId: null, time: null };
+  if (/^task(?: [^\]]*)?$/.test(inner)) return { type: 'task', children: [] };
+  return null;
+}
+
+/**
+ * インライン要素のタグを判定
+ */
+function parseInlineTag(inner: string): MarkupNode | null {
+  let m: RegExpMatchArray | null;
+
+  if ((m = inner.match(/^To:(\d+)$/i))) {
+    return { type: 'to', accountId: Number(m[1]) };
+  }
+  if (inner === 'toall') {
+    return { type: 'toall' };
+  }
+  if ((m = inner.match(/^(?:rp|返信) aid=(\d+) to=(\d+)-(\d+)$/))) {
+    return { type: 'reply', accountId: Number(m[1]), roomId: m[2], messageId: m[3] };
+  }
+  if ((m = inner.match(/^(picon|piconname):(\d+)$/))) {
+    return { type: 'picon', accountId: Number(m[2]), withName: m[1] === 'piconname' };
+  }
+  if (inner === 'hr') {
+    return { type: 'hr' };
+  }
+  if ((m = inner.match(/^download:(\d+)$/))) {
+    return { type: 'download', fileId: m[1] };
+  }
+  if ((m = inner.match(/^preview id=(\d+)(?: ht=\d+)?$/))) {
+    return { type: 'preview', fileId: m[1] };
+  }
+  return null;
+}
+
+/**
+ * 開いているブロックをノードに変換
+ * [info]直下の[title]はinfoのタイトルとして取り込む
+ */
+function toNode(container: OpenContainer): MarkupNode {
+  switch (container.type) {
+    case 'info': {
+      const titleIndex = container.children.findIndex(n => n.type === 'title');
+      if (titleIndex === -1) {
+        return { type: 'info', title: null, children: container.children };
+      }
+      const titleNode = container.children[titleIndex] as Extract<MarkupNode, { type: 'title' }>;
+      const children = container.children.filter((_, i) => i !== titleIndex);
+      return { type: 'info', title: titleNode.children, children };
+    }
+    case 'title':
+      return { type: 'title', children: container.children };
+    case 'quote':
+      return { type: 'quote', accountId: container.accountId ?? null, time: container.time ?? null, children: container.children };
+    case 'task':
+      return { type: 'task', children: container.children };
+  }
+}
+
+/**
+ * ASTをプロンプト用のプレーンテキストに変換
+ * メンション・返信先は名前を解決できない場合、汎用ラベルにする
+ */
+export function renderPlainText(nodes: MarkupNode[], options: RenderOptions = {}): string {
+  return collapseBlankLines(nodes.map(node => renderPlainNode(node, options)).join('')).trim();
+}
+
+function renderPlainNode(node: MarkupNode, options: RenderOptions): string {
+  switch (node.type) {
+    case 'text':
+      return node.value;
+    case 'info': {
+      const title = node.title ? renderPlainText(node.title, options) : '';
+      const body = renderPlainText(node.children, options);
+      return `\n${title ? `【${title}】\n` : ''}${body}\n`;
+    }
+    case 'title':
+      return `【${renderPlainText(node.children, options)}】\n`;
+    case 'code':
+      return `\n${node.value}\n`;
+    case 'quote': {
+      const body = renderPlainText(node.children, options);
+      return `\n${prefixLines(body, '> ')}\n`;
+    }
+    case 'task':
+      return `\n[タスク] ${renderPlainText(node.children, options)}\n`;
+    case 'to':
+      return `@${options.resolveAccountName?.(node.accountId) ?? 'メンバー'} `;
+    case 'toall':
+      return '@全員 ';
+    case 'reply':
+      return `(返信: @${options.resolveAccountName?.(node.accountId) ?? 'メンバー'}) `;
+    case 'picon':
+      return node.withName ? (options.resolveAccountName?.(node.accountId) ?? 'メンバー') : '';
+    case 'hr':
+      return '\n----\n';
+    case 'download':
+    case 'preview': {
+      const fileName = options.resolveFileName?.(node.fileId);
+      return fileName ? `[添付ファイル: ${fileName}]` : '[添付ファイル]';
+    }
+  }
+}
+
+/**
+ * ASTをMarkdownに変換
+ * コードブロックはフェンス付きコードブロック、[info]はタイトル付き引用ブロックにする
+ */
+export function renderMarkdown(nodes: MarkupNode[], options: RenderOptions = {}): string {
+  return collapseBlankLines(nodes.map(node => renderMarkdownNode(node, options)).join('')).trim();
+}
+
+function renderMarkdownNode(node: MarkupNode, options: RenderOptions): string {
+  switch (node.type) {
+    case 'text':
+      return node.value;
+    case 'info': {
+      const title = node.title ? renderMarkdown(node.title, options) : '';
+      const body = renderMarkdown(node.children, options);
+      const content = title ? `**${title}**\n\n${body}` : body;
+      return `\n\n${prefixLines(content, '> ')}\n\n`;
+    }
+    case 'title':
+      return `**${renderMarkdown(node.children, options)}**\n\n`;
+    case 'code': {
+      const fence = codeFence(node.value);
+      return `\n\n${fence}\n${node.value}\n${fence}\n\n`;
+    }
+    case 'quote': {
+      const body = renderMarkdown(node.children, options);
+      return `\n\n${prefixLines(body, '> ')}\n\n`;
+    }
+    case 'task':
+      return `\n\n- [ ] ${renderMarkdown(node.children, options).replace(/\n/g, '\n  ')}\n\n`;
+    case 'to':
+      return `**@${options.resolveAccountName?.(node.accountId) ?? 'メンバー'}** `;
+    case 'toall':
+      return '**@全員** ';
+    case 'reply':
+      return `↩️ **@${options.resolveAccountName?.(node.accountId) ?? 'メンバー'}** `;
+    case 'picon':
+      return node.withName ? `**${options.resolveAccountName?.(node.accountId) ?? 'メンバー'}**` : '';
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'download':
+    case 'preview': {
+      const fileName = options.resolveFileName?.(node.fileId);
+      return fileName ? `📎 ${fileName}` : '📎 添付ファイル';
+    }
+  }
+}
+
+/**
+ * Chatwork記法の本文をプレーンテキストに変換（parse + render のショートカット）
+ */
+export function toPlainText(body: string, options: RenderOptions = {}): string {
+  return renderPlainText(parseChatworkMarkup(body), options);
+}
+
+/**
+ * Chatwork記法の本文をMarkdownに変換（parse + render のショートカット）
+ */
+export function toMarkdown(body: string, options: RenderOptions = {}): string {
+  return renderMarkdown(parseChatworkMarkup(body), options);
+}
+
+/**
+ * コードブロックのフェンス（中身の最も長いバッククォートの連続より1つ長くし、途中で閉じないようにする）
+ */
+function codeFence(value: string): string {
+  const longest = Math.max(0, ...(value.match(/`+/g) ?? []).map(run => run.length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+function prefixLines(text: string, prefix: string): string {
+  return text.split('\n').map(line => line ? `${prefix}${line}` : prefix.trimEnd()).join('\n');
+}
+
+function collapseBlankLines(text: string): string {
+  return text.replace(/\n{3,}/g, '\n\n');
+}
@@ -0,0 +1,81 @@
+/**
+ * Chatworkのルーム一覧から対象ルームを選択
+ * ルーム名・ルームIDに対するinclude/excludeパターンで絞り込む
+ */
+
+import type { RoomInfo } from './client.js';
+
+export interface RoomSelectorConfig {
+  includePatterns: string[];          // 対象とするパターン（ルームID完全一致、またはルーム名のワイルドカード）
+  excludePatterns: string[];          // 除外するパターン（includeより優先）
+  types: RoomInfo['type'][];          // 対象とするルーム種別（デフォルト: groupのみ）
+}
+
+export const DEFAULT_ROOM_SELECTOR_CONFIG: RoomSelectorConfig = {
+  includePatterns: [],
+  excludePatterns: [],
+  // マイチャット・個人チャットは既定で対象外
+  types: ['group'],
+};
+
+/**
+ * カンマ区切りのパターン文字列を配列に変換
+ */
+export function parsePatternList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(',')
+    .map(p => p.trim())
+    .filter(p => p.length > 0);
+}
+
+/**
+ * ワイルドカードパターン（* と ?）を正規表現に変換
+ * 例: "案件_*" → /^案件_.*$/
+ */
+function wildcardToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped.replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+}
+
+/**
+ * 文字列がワイルドカードパターンにマッチするか判定（大文字小文字を区別しない）
+ */
+export function matchesWildcard(value: string, pattern: string): boolean {
+  return wildcardToRegExp(pattern).test(value);
+}
+
+/**
+ * ルームがパターンにマッチするか判定
+ * - 数字のみのパターン: ルームIDの完全一致
+ * - それ以外: ルーム名に対するワイルドカードマッチ
+ */
+export function matchesRoomPattern(room: RoomInfo, pattern: string): boolean {
+  if (/^\d+$/.test(pattern)) {
+    return String(room.room_id) === pattern;
+  }
+  return matchesWildcard(room.name, pattern);
+}
+
+/**
+ * ルーム一覧から対象ルームを選択
+ */
+export function selectRooms(
+  rooms: RoomInfo[],
+  config: Partial<RoomSelectorConfig> = {}
+): RoomInfo[] {
+  const cfg = { ...DEFAULT_ROOM_SELECTOR_CONFIG, ...config };
+
+  return rooms.filter(room => {
+    if (cfg.types.length > 0 && !cfg.types.includes(room.type)) {
+      return false;
+    }
+    if (cfg.includePatterns.length > 0 && !cfg.includePatterns.some(p => matchesRoomPattern(room, p))) {
+      return false;
+    }
+    if (cfg.excludePatterns.some(p => matchesRoomPattern(room, p))) {
+      return false;
+    }
+    return true;
+  });
+}
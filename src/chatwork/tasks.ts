@@ -0,0 +1,29 @@
+/**
+ * Chatworkのタスクを分析パイプライン用のメッセージ形式に変換
+ * フィルタ・分析・発言者マッピングをメッセージと共通化するため、ChatworkMessageとして扱う
+ */
+
+import type { ChatworkMessage } from './client.js';
+import type { CachedTask } from '../cache/tasks.js';
+
+/**
+ * タスク由来のmessage_idのプレフィックス（メッセージIDとの衝突回避）
+ */
+export const TASK_MESSAGE_ID_PREFIX = 'task_';
+
+/**
+ * タスクをメッセージ形式に変換
+ * - 発言者: タスクの依頼者（指示を出した人）
+ * - 日時: 作成元メッセージの送信日時（不明な場合は初回取得時刻）
+ * - 本文: タスク本文のみ（事前フィルタの判定をメッセージと揃えるため、期限・状態は含めない）
+ */
+export function taskToMessage(task: CachedTask, sourceMessage?: ChatworkMessage): ChatworkMessage {
+  return {
+    message_id: `${TASK_MESSAGE_ID_PREFIX}${task.task_id}`,
+    account: task.assigned_by_account,
+    body: task.body,
+    send_time: sourceMessage?.send_time ?? task.first_seen_time,
+    update_time: 0,
+    source_kind: 'task'
+  };
+}
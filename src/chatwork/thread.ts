@@ -0,0 +1,135 @@
+/**
+ * Chatworkの返信タグ・引用タグからスレッド構造（返信先・引用元）を復元
+ *
+ * - 返信: [rp aid=12345 to=67890-1234567890123456789]（旧形式: [返信 aid=... to=...]）
+ *   to= の値は「ルームID-メッセージID」
+ * - 引用: [qt][qtmeta aid=12345 time=1700000000]引用本文[/qt]
+ *   引用にはメッセージIDが含まれないため、発言者(aid)と送信時刻(time)でキャッシュ内のメッセージを照合する
+ */
+
+import type { ChatworkMessage } from './client.js';
+
+/**
+ * 返信タグの解析結果
+ */
+export interface ReplyTag {
+  account_id: number;
+  room_id: string;
+  message_id: string;
+}
+
+/**
+ * 引用タグの解析結果
+ */
+export interface QuoteTag {
+  account_id: number;
+  time: number | null;
+}
+
+/**
+ * 引用元の情報（message_idはキャッシュ内で特定できた場合のみ）
+ */
+export interface QuoteLink {
+  account_id: number;
+  time: number | null;
+  message_id: string | null;
+}
+
+/**
+ * 1メッセージ分のスレッド情報
+ */
+export interface ThreadLink {
+  message_id: string;
+  parent_message_id: string | null;    // 返信先のmessage_id
+  parent_room_id: string | null;       // 返信先のルームID（通常は同じルーム）
+  reply_to_account_id: number | null;  // 返信先の発言者
+  quoted_message_ids: string[];        // 引用元のmessage_id（特定できたもののみ）
+  quotes: QuoteLink[];
+}
+
+const REPLY_TAG_PATTERN = /\[(?:rp|返信) aid=(\d+) to=(\d+)-(\d+)\]/g;
+const QUOTE_META_PATTERN = /\[qtmeta aid=(\d+)(?: time=(\d+))?\]/g;
+
+/**
+ * メッセージ本文から返信タグを抽出
+ */
+export function parseReplyTags(body: string): ReplyTag[] {
+  const tags: ReplyTag[] = [];
+  for (const match of body.matchAll(REPLY_TAG_PATTERN)) {
+    tags.push({
+      account_id: Number(match[1]),
+      room_id: match[2],
+      message_id: match[3]
+    });
+  }
+  return tags;
+}
+
+/**
+ * メッセージ本文から引用タグ（qtmeta）を抽出
+ */
+export function parseQuoteTags(body: string): QuoteTag[] {
+  const tags: QuoteTag[] = [];
+  for (const match of body.matchAll(QUOTE_META_PATTERN)) {
+    tags.push({
+      account_id: Number(match[1]),
+      time: match[2] ? Number(match[2]) : null
+    });
+  }
+  return tags;
+}
+
+/**
+ * メッセージ群からスレッド情報を構築
+ * 返信・引用のいずれも含まないメッセージは結果に含めない
+ */
+export function buildThreadLinks(messages: ChatworkMessage[]): Record<string, ThreadLink> {
+  // 引用元の照合用: "account_id:send_time" → message_id
+  const messageByAuthorAndTime = new Map<string, string>();
+  const accountByMessageId = new Map<string, number>();
+  for (const msg of messages) {
+    messageByAuthorAndTime.set(`${msg.account.account_id}:${msg.send_time}`, msg.message_id);
+    accountByMessageId.set(msg.message_id, msg.account.account_id);
+  }
+
+  const links: Record<string, ThreadLink> = {};
+  for (const msg of messages) {
+    const replies = parseReplyTags(msg.body);
+    const quoteTags = parseQuoteTags(msg.body);
+    if (replies.length === 0 && quoteTags.length === 0 && !msg.parent_message_id) {
+      continue;
+    }
+
+    // 複数の返信タグがある場合は最初のものを親とする
+    // 返信タグがなければソース側の返信先（Slackのスレッドなど）を使う
+    const reply = replies[0] ?? null;
+    const parentMessageId = reply?.message_id ?? msg.parent_message_id ?? null;
+    const quotes: QuoteLink[] = quoteTags.map(tag => ({
+      account_id: tag.account_id,
+      time: tag.time,
+      message_id: tag.time !== null
+        ? messageByAuthorAndTime.get(`${tag.account_id}:${tag.time}`) ?? null
+        : null
+    }));
+
+    links[msg.message_id] = {
+      message_id: msg.message_id,
+      parent_message_id: parentMessageId,
+      parent_room_id: reply?.room_id ?? null,
+      reply_to_account_id: reply?.account_id ?? (parentMessageId ? accountByMessageId.get(parentMessageId) ?? null : null),
+      quoted_message_ids: quotes
+        .map(q => q.message_id)
+        .filter((id): id is string => id !== null && id !== msg.message_id),
+      quotes
+    };
+  }
+
+  return links;
+}
+
+/**
+ * ChatworkのメッセージURLを生成
+ */
+export function buildMessageUrl(roomId: string, messageId: string): string {
+  return `https://www.chatwork.com/#!rid${roomId}-${messageId}`;
+}
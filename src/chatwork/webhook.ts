@@ -0,0 +1,297 @@
+/**
+ * ChatworkのWebhook（メッセージ作成・編集イベント）を受信してキャッシュに追記
+ *
+ * ポーリングと違いAPIのリクエスト数を消費せず、100件上限による欠落も発生しない
+ * 署名の検証: リクエストボディをWebhookトークン（Base64デコードしたもの）をキーにHMAC-SHA256で署名し、
+ * Base64エンコードした値が X-ChatWorkWebhookSignature ヘッダー（またはクエリ chatwork_webhook_signature）と一致すること
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { MessageCacheManager } from '../cache/messages.js';
+import type { ChatworkAccount, ChatworkMessage } from './client.js';
+import { Logger } from '../utils/logger.js';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-chatworkwebhooksignature';
+const WEBHOOK_SIGNATURE_QUERY = 'chatwork_webhook_signature';
+
+// 扱うイベント（メンション通知 mention_to_me は同じメッセージの作成イベントと重複するため扱わない）
+const MESSAGE_EVENT_TYPES = ['message_created', 'message_updated'] as const;
+
+export type WebhookEventType = typeof MESSAGE_EVENT_TYPES[number];
+
+export interface WebhookMessageEvent {
+  message_id: string;
+  room_id: number;
+  account_id: number;
+  body: string;
+  send_time: number;
+  update_time: number;
+}
+
+export interface WebhookPayload {
+  webhook_setting_id: string;
+  webhook_event_type: WebhookEventType;
+  webhook_event_time: number;
+  webhook_event: WebhookMessageEvent;
+}
+
+export type WebhookParseResult =
+  | { ignored: false; payload: WebhookPayload }
+  | { ignored: true; eventType: string };  // メッセージ以外のイベント（フィールドは検証しない）
+
+export interface WebhookServerConfig {
+  port: number;
+  path: string;               // 受信するパス（Chatworkの「Webhook URL」に合わせる）
+  roomIds: string[];          // 受け付けるルーム（空は全ルーム）
+  maxBodyBytes: number;
+}
+
+export const DEFAULT_WEBHOOK_SERVER_CONFIG: WebhookServerConfig = {
+  port: 3000,
+  path: '/webhook/chatwork',
+  roomIds: [],
+  maxBodyBytes: 1024 * 1024,
+};
+
+/**
+ * リクエストボディの署名を計算（Base64）
+ * @param token Chatworkの管理画面に表示されるWebhookトークン（Base64）
+ */
+export function signWebhookBody(body: string | Buffer, token: string): string {
+  return createHmac('sha256', Buffer.from(token, 'base64')).update(body).digest('base64');
+}
+
+/**
+ * 署名を検証（タイミング攻撃を避けるため定数時間で比較）
+ */
+export function verifyWebhookSignature(body: string | Buffer, signature: string, token: string): boolean {
+  const expected = Buffer.from(signWebhookBody(body, token));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * ペイロードの構造をチェック（不正な場合はnull）
+ * メッセージ以外のイベントは、イベントの内容（mention_to_me は from_account_id 等）が異なるため検証せずに ignored とする
+ */
+export function parseWebhookPayload(data: unknown): WebhookParseResult | null {
+  if (typeof data !== 'object' || data === null) return null;
+  const payload = data as Partial<WebhookPayload>;
+  const eventType: unknown = payload.webhook_event_type;
+  if (typeof eventType !== 'string') return null;
+  if (!(MESSAGE_EVENT_TYPES as readonly string[]).includes(eventType)) {
+    return { ignored: true, eventType };
+  }
+
+  const event = payload.webhook_event;
+  if (
+    typeof event !== 'object' || event === null ||
+    event.message_id === undefined || event.room_id === undefined || event.account_id === undefined ||
+    typeof event.body !== 'string' || typeof event.send_time !== 'number'
+  ) {
+    return null;
+  }
+  return {
+    ignored: false,
+    payload: {
+      ...(payload as WebhookPayload),
+      webhook_event: {
+        ...event,
+        message_id: String(event.message_id),
+        room_id: Number(event.room_id),
+        account_id: Number(event.account_id),
+        update_time: event.update_time ?? 0
+      }
+    }
+  };
+}
+
+/**
+ * WebhookのイベントをChatworkMessageに変換
+ * イベントには発言者名が含まれないため、キャッシュ済みメッセージから引き当てる
+ * （見つからない場合は空。次回のAPI取得時に補完される）
+ */
+export function webhookEventToMessage(
+  event: WebhookMessageEvent,
+  knownAccounts: Map<number, ChatworkAccount>
+): ChatworkMessage {
+  const known = knownAccounts.get(event.account_id);
+  return {
+    message_id: event.message_id,
+    account: {
+      account_id: event.account_id,
+      name: known?.name ?? '',
+      avatar_image_url: known?.avatar_image_url ?? ''
+    },
+    body: event.body,
+    send_time: event.send_time,
+    update_time: event.update_time
+  };
+}
+
+export class ChatworkWebhookServer {
+  private config: WebhookServerConfig;
+  private token: string;
+  private cacheManager: MessageCacheManager;
+  private logger: Logger;
+  private server: Server | null = null;
+  // キャッシュの読み込み → マージ → 保存が同時に走らないよう直列化
+  // （別プロセスの通常実行とはキャッシュファイルのロックで排他し、保存時に互いの追記を残す）
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(token: string, config: Partial<WebhookServerConfig> = {}, cacheDir: string = './cache') {
+    this.token = token;
+    this.config = { ...DEFAULT_WEBHOOK_SERVER_CONFIG, ...config };
+    this.cacheManager = new MessageCacheManager(cacheDir);
+    this.logger = new Logger('Webhook');
+  }
+
+  /**
+   * サーバーを起動
+   */
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const server = createServer((req, res) => {
+        this.handleRequest(req, res).catch(error => {
+          const errorMsg = error instanceof Error ? error.message : String(error);
+          this.logger.error(`リクエストの処理に失敗しました: ${errorMsg}`, error);
+          if (!res.headersSent) {
+            this.respond(res, 500, 'internal error');
+          }
+        });
+      });
+      server.once('error', reject);
+      server.listen(this.config.port, () => {
+        this.server = server;
+        this.logger.info(`待ち受け開始: http://localhost:${this.config.port}${this.config.path}`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * サーバーを停止（処理中のキャッシュ書き込みを待つ）
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    await this.queue;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== this.config.path) {
+      this.respond(res, 404, 'not found');
+      return;
+    }
+    if (req.method !== 'POST') {
+      this.respond(res, 405, 'method not allowed');
+      return;
+    }
+
+    const body = await this.readBody(req);
+    if (body === null) {
+      this.respond(res, 413, 'payload too large');
+      return;
+    }
+
+    const headerSignature = req.headers[WEBHOOK_SIGNATURE_HEADER];
+    const signature = (Array.isArray(headerSignature) ? headerSignature[0] : headerSignature)
+      ?? url.searchParams.get(WEBHOOK_SIGNATURE_QUERY);
+    if (!signature || !verifyWebhookSignature(body, signature, this.token)) {
+      this.logger.warn('署名が一致しないリクエストを拒否しました');
+      this.respond(res, 401, 'invalid signature');
+      return;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(body.toString('utf-8'));
+    } catch {
+      this.respond(res, 400, 'invalid json');
+      return;
+    }
+
+    const parsed = parseWebhookPayload(data);
+    if (!parsed) {
+      this.respond(res, 400, 'invalid payload');
+      return;
+    }
+    if (parsed.ignored) {
+      this.logger.debug(`対象外のイベント: ${parsed.eventType}`);
+      this.respond(res, 200, 'ignored');
+      return;
+    }
+
+    const { payload } = parsed;
+
+    const roomId = String(payload.webhook_event.room_id);
+    if (this.config.roomIds.length > 0 && !this.config.roomIds.includes(roomId)) {
+      this.logger.debug(`対象外のルーム: ${roomId}`);
+      this.respond(res, 200, 'ignored');
+      return;
+    }
+
+    await this.enqueue(() => this.appendMessage(roomId, payload));
+    this.respond(res, 200, 'ok');
+  }
+
+  /**
+   * イベントのメッセージをルームのキャッシュに追記（編集の場合は置き換えて再分析の対象に戻す）
+   */
+  private async appendMessage(roomId: string, payload: WebhookPayload): Promise<void> {
+    const existingCache = await this.cacheManager.load(roomId);
+    const cachedMessages = existingCache?.messages ?? [];
+
+    const knownAccounts = new Map<number, ChatworkAccount>();
+    for (const message of cachedMessages) {
+      if (message.account.name && !knownAccounts.has(message.account.account_id)) {
+        knownAccounts.set(message.account.account_id, message.account);
+      }
+    }
+
+    const message = webhookEventToMessage(payload.webhook_event, knownAccounts);
+    const { messages, updatedIds } = this.cacheManager.mergeMessages(cachedMessages, [message]);
+    if (messages.length === cachedMessages.length && updatedIds.length === 0) {
+      this.logger.debug(`キャッシュ済みのメッセージ: ${message.message_id}`);
+      return;
+    }
+
+    await this.cacheManager.save(roomId, messages);
+    await this.cacheManager.invalidateAnalysis(roomId, updatedIds);
+
+    const label = payload.webhook_event_type === 'message_updated' ? '編集' : '新規';
+    this.logger.info(`ルーム ${roomId}: ${label}メッセージ ${message.message_id} を追記（キャッシュ${messages.length}件）`);
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    // 失敗しても後続の書き込みは続ける
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * リクエストボディを読み込む（上限を超えた場合はnull）
+   */
+  private async readBody(req: IncomingMessage): Promise<Buffer | null> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > this.config.maxBodyBytes) {
+        return null;
+      }
+      chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  private respond(res: ServerResponse, status: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+    res.end(message);
+  }
+}
@@ -1,9 +1,24 @@
-import Anthropic from '@anthropic-ai/sdk';
+import type Anthropic from '@anthropic-ai/sdk';
 import { readFileSync, existsSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
-import type { ChatworkMessage } from '../chatwork/client.js';
+import type { ChatworkMessage, SourceKind } from '../chatwork/client.js';
+import type { ReferencedFile } from '../chatwork/files.js';
 import type { ResolvedRole, TeamRole } from '../team/profiles.js';
+import type { ContextMessage, ContextResolver } from './context.js';
+import type { ConversationWindow } from './window.js';
+import {
+  buildKnowledgeTool,
+  parseJsonText,
+  validateKnowledgeItems,
+  KNOWLEDGE_TOOL_NAME,
+  type KnowledgeItem,
+  type OutputMode
+} from './schema.js';
+import { emptyUsage, addUsage, fromApiUsage, formatUsage, type TokenUsage } from './pricing.js';
+import type { AnalysisProvider, BatchApi, MessageRequest, ResponseContentBlock } from './provider.js';
+import { truncateMessage } from '../utils/messageFilter.js';
+import { toPlainText } from '../chatwork/markup.js';
 import { Logger } from '../utils/logger.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -23,13 +38,59 @@ export interface AnalyzedMessage {
   tags: string[];
   date: string;
   formatted_content: string;
+  source_kind?: SourceKind;  // 知見の取得元（未設定の場合はmessage）
+  referenced_files?: ReferencedFile[];  // 元発言が参照している添付ファイル
+  source_message_ids?: string[];  // 会話単位の分析で知見に寄与したメッセージ（時系列順、message_idは先頭と同じ）
+  mentions?: KnowledgeMention[];  // 重複を統合した知見の言及（日時順、代表の知見を含む。出力時のみ設定）
+}
+
+/**
+ * 統合した知見の1回分の言及（統合前の知見ごと）
+ */
+export interface KnowledgeMention {
+  message_id: string;
+  date: string;
+  source_message_ids?: string[];
+  room_id?: string;  // 全ルーム統合出力で、ルームをまたいで統合した言及のルーム
+}
+
+/**
+ * 知見の元になったメッセージのID（メッセージ単位の分析ではmessage_idのみ）
+ */
+export function getSourceMessageIds(item: AnalyzedMessage): string[] {
+  return item.source_message_ids && item.source_message_ids.length > 0
+    ? item.source_message_ids
+    : [item.message_id];
+}
+
+/**
+ * 知見に言及したすべてのメッセージのID（統合した知見はすべての言及、発言者の表示用）
+ */
+export function getMentionedMessageIds(item: AnalyzedMessage): string[] {
+  if (!item.mentions || item.mentions.length === 0) {
+    return getSourceMessageIds(item);
+  }
+  return [...new Set(item.mentions.flatMap(getMentionSourceMessageIds))];
+}
+
+/**
+ * 1回分の言及の元になったメッセージのID
+ */
+export function getMentionSourceMessageIds(mention: KnowledgeMention): string[] {
+  return mention.source_message_ids && mention.source_message_ids.length > 0
+    ? mention.source_message_ids
+    : [mention.message_id];
 }
 
 export interface AnalyzerOptions {
   promptTemplatePath?: string;
+  windowPromptTemplatePath?: string;  // 会話単位の分析用
   feedbackPath?: string;
   model?: string;
   apiMode?: 'batch' | 'realtime'; // API種別の選択
+  outputMode?: OutputMode;         // 応答の受け取り方（デフォルト: tool）
+  maxRepairAttempts?: number;      // 不正・途切れた応答に対する修正依頼の最大回数
+  batchSubmitOnly?: boolean;       // Batchを送信したら完了を待たずに戻る（結果はcollectBatchで回収）
 }
 
 export interface FeedbackCorrection {
@@ -39,22 +100,143 @@ export interface FeedbackCorrection {
   reason: string;
 }
 
+/**
+ * 分析対象のメッセージ（応答の知見にmessage_id・日時などを付与するために使用）
+ */
+export interface AnalysisSource {
+  message_id: string;
+  send_time: number;
+  source_kind?: SourceKind;
+}
+
+/**
+ * Claude APIへの1リクエスト分（メッセージ単位、または会話ウィンドウ単位）
+ * Batchの結果を後から回収できるよう、JSONで保存できる値のみを持つ
+ */
+export interface AnalysisRequest {
+  customId: string;
+  label: string;            // ログ表示用
+  withSourceIds: boolean;   // 応答にsource_message_idsを含める（会話単位の分析）
+  sources: AnalysisSource[];  // 時系列順
+}
+
+/**
+ * 1リクエスト分の試行（修正依頼のたびに前回の応答と指摘を会話に追加する）
+ */
+export interface AnalysisAttempt {
+  request: AnalysisRequest;
+  system?: string;  // プロンプトの共通部分（プロンプトキャッシュの対象、テンプレートに {{#request}} がない場合はなし）
+  messages: Anthropic.MessageParam[];
+  maxTokens: number;
+  repairCount: number;
+}
+
+/**
+ * APIに送るリクエスト（Batch APIのリクエストと同じ形式、dry-runでの確認用）
+ */
+export interface PreparedRequest {
+  custom_id: string;
+  params: MessageRequest;
+}
+
+/**
+ * 分析の失敗の種類
+ * - api_error: APIエラー（Batchのerrored、Realtime APIの例外）
+ * - expired / canceled: Batchのリクエストの期限切れ・キャンセル
+ * - parse_error: 応答をJSONとして解析できない
+ * - truncated: 応答がmax_tokensで途切れた
+ * - invalid_output: 応答がスキーマに合わない
+ */
+export type AnalysisErrorCategory = 'api_error' | 'expired' | 'canceled' | 'parse_error' | 'truncated' | 'invalid_output';
+
+/**
+ * 1リクエスト分の分析の失敗（修正依頼の上限に達した後）
+ */
+export interface AnalysisFailure {
+  messageIds: string[];  // リクエストの対象メッセージ（会話単位の分析ではウィンドウ全体）
+  category: AnalysisErrorCategory;
+  error: string;
+}
+
+export interface AnalysisOutcome {
+  items: AnalyzedMessage[];
+  failures: AnalysisFailure[];
+  usage: TokenUsage;  // 修正依頼を含むトークン使用量
+}
+
+/**
+ * 送信済みのBatch（結果の回収に必要な情報）
+ */
+export interface BatchState {
+  batchId: string;
+  model: string;
+  createdAt: string;
+  expiresAt: string | null;
+  attempts: AnalysisAttempt[];   // custom_id → 対象メッセージの対応、修正依頼に使用
+  analyzed: AnalyzedMessage[];   // 修正依頼の前のBatchで得られた知見
+  failures: AnalysisFailure[];   // 修正依頼の前のBatchで失敗したリクエスト
+  usage: TokenUsage;             // 修正依頼の前のBatchのトークン使用量
+}
+
+/**
+ * Batchの送信を記録する（プロセスが終了しても結果を回収できるようにする）
+ */
+export interface BatchJobTracker {
+  /**
+   * @param replacedBatchId 修正依頼で新しいBatchを送信した場合、置き換え前のBatch ID
+   */
+  onSubmitted(state: BatchState, replacedBatchId?: string): Promise<void>;
+}
+
+type ResponseEvaluation =
+  | { ok: true; items: AnalyzedMessage[] }
+  | {
+      ok: false;
+      items: AnalyzedMessage[];  // 検証を通過した知見（修正依頼の上限に達した場合に採用）
+      truncated: boolean;        // max_tokensで途切れた
+      errors: string[];
+      parseError?: unknown;
+      rawText?: string;
+    };
+
 const DEFAULT_MODEL = 'claude-sonnet-4-5-20250929';
 
+// 文脈として渡すメッセージ1件あたりの最大文字数
+const CONTEXT_MESSAGE_MAX_LENGTH = 300;
+
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+// 途切れた応答の修正依頼でmax_tokensを増やす上限
+const REPAIR_MAX_TOKENS_LIMIT = 8192;
+
+// プロンプトテンプレートのリクエストごとに変わる部分（この外側をsystemとしてプロンプトキャッシュの対象にする）
+export const REQUEST_SECTION_START = '{{#request}}';
+export const REQUEST_SECTION_END = '{{/request}}';
+
 export class ClaudeAnalyzer {
-  private client: Anthropic;
+  private provider: AnalysisProvider;
   private promptTemplate: string | null = null;
+  private windowPromptTemplate: string | null | undefined = undefined;  // 未読み込みはundefined
+  private windowPromptTemplatePath?: string;
   private model: string;
   private apiMode: 'batch' | 'realtime';
+  private outputMode: OutputMode;
+  private maxRepairAttempts: number;
+  private batchSubmitOnly: boolean;
+  private promptCacheWarningShown = false;
   private feedbackExamples: FeedbackCorrection[] = [];
   private logger: Logger;
 
-  constructor(apiKey: string, options: AnalyzerOptions = {}) {
+  constructor(provider: AnalysisProvider, options: AnalyzerOptions = {}) {
     this.logger = new Logger('Claude');
-    this.client = new Anthropic({ apiKey });
+    this.provider = provider;
     this.model = options.model || DEFAULT_MODEL;
     this.apiMode = options.apiMode || 'batch'; // デフォルトはbatch（後方互換性）
+    this.outputMode = options.outputMode || 'tool';
+    this.maxRepairAttempts = options.maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS;
+    this.batchSubmitOnly = options.batchSubmitOnly ?? false;
     this.loadPromptTemplate(options.promptTemplatePath);
+    this.windowPromptTemplatePath = options.windowPromptTemplatePath;
     this.loadFeedback(options.feedbackPath);
 
     // デバッグ: max_tokens設定を表示
@@ -62,6 +244,16 @@ export class ClaudeAnalyzer {
     this.logger.debug(`Max tokens for analysis: ${maxTokens} (env: "${process.env.CLAUDE_MAX_TOKENS || 'not set'}")`);
   }
 
+  /**
+   * Batch APIを取得（対応していないプロバイダーではエラー）
+   */
+  private getBatchApi(): BatchApi {
+    if (!this.provider.batch) {
+      throw new Error(`${this.provider.label} はBatch APIに対応していません（CLAUDE_API_MODE=realtime を指定してください）`);
+    }
+    return this.provider.batch;
+  }
+
   /**
    * 使用モデル名を取得
    */
@@ -92,6 +284,30 @@ export class ClaudeAnalyzer {
     }
   }
 
+  /**
+   * 会話単位の分析用のプロンプトテンプレートを読み込む（初回使用時のみ）
+   */
+  private getWindowPromptTemplate(): string | null {
+    if (this.windowPromptTemplate !== undefined) {
+      return this.windowPromptTemplate;
+    }
+
+    const customPath = this.windowPromptTemplatePath;
+    const projectRoot = join(__dirname, '..', '..');
+    const templatePath = customPath && existsSync(customPath)
+      ? customPath
+      : join(projectRoot, 'prompts', 'analysis_window.md');
+
+    if (existsSync(templatePath)) {
+      this.windowPromptTemplate = readFileSync(templatePath, 'utf-8');
+      this.logger.info(`会話単位のプロンプトテンプレート読み込み: ${templatePath}`);
+    } else {
+      this.windowPromptTemplate = null;
+      this.logger.info('会話単位のデフォルトプロンプトを使用');
+    }
+    return this.windowPromptTemplate;
+  }
+
   /**
    * フィードバックファイルを読み込む
    */
@@ -128,345 +344,565 @@ export class ClaudeAnalyzer {
   /**
    * Batch APIでメッセージを分析
    * 50%割引が適用される
+   * batchSubmitOnlyの場合は送信後すぐにnullを返す（結果はcollectBatchで回収）
    */
-  async analyzeBatch(messages: ChatworkMessage[], roleResolver?: (accountId: number) => ResolvedRole): Promise<AnalyzedMessage[]> {
+  async analyzeBatch(
+    messages: ChatworkMessage[],
+    roleResolver?: (accountId: number) => ResolvedRole,
+    contextResolver?: ContextResolver,
+    tracker?: BatchJobTracker
+  ): Promise<AnalysisOutcome | null> {
     this.logger.info(`Batch API処理開始: ${messages.length}件のメッセージ`);
+    const attempts = messages.map(msg => this.createMessageAttempt(msg, roleResolver, contextResolver));
+    return this.runBatch(attempts, tracker);
+  }
 
-    // Batch API用のリクエストを作成
-    const requests = messages.map((msg, index) => ({
-      custom_id: `msg_${msg.message_id}`,
-      params: {
-        model: this.model,
-        max_tokens: getMaxTokens(),
-        messages: [{
-          role: 'user' as const,
-          content: this.createAnalysisPrompt(msg, roleResolver)
-        }]
-      }
-    }));
+  /**
+   * Realtime APIでメッセージを分析
+   * 通常価格だが、高速（数秒〜数分）
+   */
+  async analyzeRealtime(
+    messages: ChatworkMessage[],
+    roleResolver?: (accountId: number) => ResolvedRole,
+    contextResolver?: ContextResolver
+  ): Promise<AnalysisOutcome> {
+    this.logger.info(`Realtime API処理開始: ${messages.length}件のメッセージ`);
+    const attempts = messages.map(msg => this.createMessageAttempt(msg, roleResolver, contextResolver));
+    return this.runRealtime(attempts);
+  }
 
-    // Batch作成
-    this.logger.info(`Batch作成リクエスト送信中...`);
-    const batchCreateStartTime = Date.now();
+  /**
+   * メッセージを分析（API種別に応じて自動振り分け）
+   * contextResolverを渡すと、前後のメッセージを参考情報としてプロンプトに含める
+   * trackerを渡すと、送信したBatchを記録する（Batch APIのみ）
+   */
+  async analyze(
+    messages: ChatworkMessage[],
+    roleResolver?: (accountId: number) => ResolvedRole,
+    contextResolver?: ContextResolver,
+    tracker?: BatchJobTracker
+  ): Promise<AnalysisOutcome | null> {
+    if (contextResolver && this.promptTemplate && !this.promptTemplate.includes('{{context}}')) {
+      this.logger.warn('プロンプトテンプレートに {{context}} がないため、文脈はプロンプトに含まれません');
+    }
 
-    const batch = await this.client.beta.messages.batches.create({
-      requests
-    });
+    if (this.apiMode === 'realtime') {
+      this.logger.info(this.provider.name === 'anthropic' ? 'API種別: Realtime API (高速、通常価格)' : `API種別: ${this.provider.label}`);
+      return this.analyzeRealtime(messages, roleResolver, contextResolver);
+    } else {
+      this.logger.info('API種別: Batch API (50%割引、処理時間: 数分〜24時間)');
+      return this.analyzeBatch(messages, roleResolver, contextResolver, tracker);
+    }
+  }
 
-    const batchCreateElapsed = Date.now() - batchCreateStartTime;
-    this.logger.info(`Batch作成完了: ${batch.id} (作成時間: ${batchCreateElapsed}ms)`);
-    this.logger.info(`ステータス: ${batch.processing_status}`);
-    this.logger.info(`リクエスト数: ${requests.length}件`);
+  /**
+   * 会話ウィンドウ単位で分析（API種別に応じて自動振り分け）
+   * 1つの知見に複数の発言が寄与する場合、source_message_idsにすべてのmessage_idを記録する
+   */
+  async analyzeWindows(
+    windows: ConversationWindow[],
+    roleResolver?: (accountId: number) => ResolvedRole,
+    tracker?: BatchJobTracker
+  ): Promise<AnalysisOutcome | null> {
+    const messageCount = windows.reduce((sum, w) => sum + w.messages.length, 0);
+    const attempts = windows.map(window => this.createWindowAttempt(window, roleResolver));
 
-    // created_atとexpires_atを表示
-    if (batch.created_at) {
-      const createdAt = new Date(batch.created_at);
-      this.logger.info(`作成日時: ${createdAt.toLocaleString('ja-JP')}`);
-    }
-    if (batch.expires_at) {
-      const expiresAt = new Date(batch.expires_at);
-      this.logger.info(`有効期限: ${expiresAt.toLocaleString('ja-JP')}`);
+    if (this.apiMode === 'realtime') {
+      this.logger.info(this.provider.name === 'anthropic' ? 'API種別: Realtime API (高速、通常価格)' : `API種別: ${this.provider.label}`);
+      this.logger.info(`Realtime API処理開始: ${windows.length}件の会話（${messageCount}件のメッセージ）`);
+      return this.runRealtime(attempts);
+    } else {
+      this.logger.info('API種別: Batch API (50%割引、処理時間: 数分〜24時間)');
+      this.logger.info(`Batch API処理開始: ${windows.length}件の会話（${messageCount}件のメッセージ）`);
+      return this.runBatch(attempts, tracker);
     }
+  }
+
+  /**
+   * メッセージ単位の分析で送るリクエストを作成（APIは呼び出さない、dry-run用）
+   */
+  prepareRequests(
+    messages: ChatworkMessage[],
+    roleResolver?: (accountId: number) => ResolvedRole,
+    contextResolver?: ContextResolver
+  ): PreparedRequest[] {
+    return messages.map(msg => this.toPreparedRequest(this.createMessageAttempt(msg, roleResolver, contextResolver)));
+  }
+
+  /**
+   * 会話単位の分析で送るリクエストを作成（APIは呼び出さない、dry-run用）
+   */
+  prepareWindowRequests(
+    windows: ConversationWindow[],
+    roleResolver?: (accountId: number) => ResolvedRole
+  ): PreparedRequest[] {
+    return windows.map(window => this.toPreparedRequest(this.createWindowAttempt(window, roleResolver)));
+  }
 
-    // Batch完了を待機
-    const completedBatch = await this.waitForBatchCompletion(batch.id);
-    
-    // 結果を取得
-    const results = await this.client.beta.messages.batches.results(completedBatch.id);
+  private toPreparedRequest(attempt: AnalysisAttempt): PreparedRequest {
+    return {
+      custom_id: attempt.request.customId,
+      params: this.createParams(attempt)
+    };
+  }
 
-    // custom_idからmessage_idを抽出するマップを作成
-    const messageIdMap = new Map<string, string>();
-    for (const msg of messages) {
-      messageIdMap.set(`msg_${msg.message_id}`, msg.message_id);
+  /**
+   * メッセージ1件分のリクエストを作成
+   */
+  private createMessageAttempt(
+    msg: ChatworkMessage,
+    roleResolver?: (accountId: number) => ResolvedRole,
+    contextResolver?: ContextResolver
+  ): AnalysisAttempt {
+    return this.createAttempt({
+      customId: `msg_${msg.message_id}`,
+      label: `message ${msg.message_id}`,
+      withSourceIds: false,
+      sources: [toAnalysisSource(msg)]
+    }, this.createAnalysisPrompt(msg, roleResolver, contextResolver));
+  }
+
+  /**
+   * 会話ウィンドウ1件分のリクエストを作成
+   */
+  private createWindowAttempt(
+    window: ConversationWindow,
+    roleResolver?: (accountId: number) => ResolvedRole
+  ): AnalysisAttempt {
+    return this.createAttempt({
+      customId: window.id,
+      label: `window ${window.id} (${window.messages.length}件)`,
+      withSourceIds: true,
+      sources: window.messages.map(toAnalysisSource)
+    }, this.createWindowPrompt(window, roleResolver));
+  }
+
+  /**
+   * リクエストの最初の試行を作成
+   * プロンプトの {{#request}} 〜 {{/request}} をユーザーメッセージに、それ以外をsystemにする
+   */
+  private createAttempt(request: AnalysisRequest, prompt: string): AnalysisAttempt {
+    const { system, user } = splitPromptSections(prompt);
+    if (system === null && !this.promptCacheWarningShown) {
+      this.logger.info(`プロンプトに ${REQUEST_SECTION_START} 〜 ${REQUEST_SECTION_END} がないため、プロンプトキャッシュを使用しません`);
+      this.promptCacheWarningShown = true;
     }
+    return {
+      request,
+      ...(system !== null && { system }),
+      messages: [{ role: 'user', content: user }],
+      maxTokens: getMaxTokens(),
+      repairCount: 0
+    };
+  }
 
-    // dateを生成するマップを作成
-    const messageDateMap = new Map<string, string>();
-    for (const msg of messages) {
-      const date = new Date(msg.send_time * 1000).toISOString();
-      messageDateMap.set(`msg_${msg.message_id}`, date);
+  /**
+   * APIに渡すパラメータを作成（toolモードではツール呼び出しを強制する）
+   * systemはすべてのリクエストで共通のため、プロンプトキャッシュの対象にする（ツールの定義も含めてキャッシュされる）
+   */
+  private createParams(attempt: AnalysisAttempt): MessageRequest {
+    const params = {
+      model: this.model,
+      max_tokens: attempt.maxTokens,
+      ...(attempt.system !== undefined && {
+        system: [{ type: 'text' as const, text: attempt.system, cache_control: { type: 'ephemeral' as const } }]
+      }),
+      messages: attempt.messages
+    };
+    if (this.outputMode === 'text') {
+      return params;
     }
+    return {
+      ...params,
+      tools: [buildKnowledgeTool(attempt.request.withSourceIds)],
+      tool_choice: { type: 'tool' as const, name: KNOWLEDGE_TOOL_NAME }
+    };
+  }
 
-    // 結果をパース
-    this.logger.info(`結果を取得中...`);
-    const analyzed: AnalyzedMessage[] = [];
-    let parseErrorCount = 0;
-    let processedCount = 0;
-
-    for await (const result of results) {
-      processedCount++;
-      if (result.result.type === 'succeeded') {
-        const content = result.result.message.content[0];
-        if (content.type === 'text') {
-          try {
-            // custom_idからmessage_idを取得
-            const messageId = messageIdMap.get(result.custom_id);
-            const date = messageDateMap.get(result.custom_id);
-
-            if (!messageId || !date) {
-              this.logger.error(`custom_id ${result.custom_id} に対応するメッセージが見つかりません`);
-              parseErrorCount++;
-              continue;
-            }
+  /**
+   * 応答を取り出してスキーマで検証し、知見にメタデータを付与する
+   */
+  private evaluateResponse(
+    request: AnalysisRequest,
+    content: ResponseContentBlock[],
+    stopReason: string | null
+  ): ResponseEvaluation {
+    const toolUse = content.find(block => block.type === 'tool_use' && block.name === KNOWLEDGE_TOOL_NAME);
+    const text = content.map(block => block.type === 'text' ? block.text : '').join('');
+
+    let data: unknown;
+    if (toolUse && toolUse.type === 'tool_use') {
+      data = toolUse.input;
+    } else {
+      try {
+        data = parseJsonText(text);
+      } catch (e) {
+        const truncated = stopReason === 'max_tokens';
+        return {
+          ok: false,
+          items: [],
+          truncated,
+          errors: [truncated ? '出力が途中で途切れています' : `JSONとして解析できません（${e instanceof Error ? e.message : String(e)}）`],
+          parseError: e,
+          rawText: text
+        };
+      }
+    }
 
-            // JSONを抽出してパース（複数パターンに対応）
-            let jsonText = content.text.trim();
-
-            // パターン1: ```json ... ``` 形式
-            let jsonMatch = jsonText.match(/```json\s*([\s\S]*?)```/);
-            if (jsonMatch) {
-              jsonText = jsonMatch[1].trim();
-            } else {
-              // パターン2: ``` ... ``` 形式（json指定なし）
-              jsonMatch = jsonText.match(/```\s*([\s\S]*?)```/);
-              if (jsonMatch) {
-                jsonText = jsonMatch[1].trim();
-              }
-            }
+    const { items, errors } = validateKnowledgeItems(data, request.withSourceIds);
+    const analyzed = items.map(item => toAnalyzedMessage(request, item));
+    // 途切れた応答は項目の欠落による検証エラーが出るため、途切れたことだけを伝える
+    if (stopReason === 'max_tokens') {
+      return { ok: false, items: analyzed, truncated: true, errors: ['出力が途中で途切れています'] };
+    }
+    if (errors.length > 0) {
+      return { ok: false, items: analyzed, truncated: false, errors };
+    }
+    return { ok: true, items: analyzed };
+  }
 
-            // JSON文字列がまだ```で始まっている場合は除去（念のため）
-            jsonText = jsonText.replace(/^```(json)?/gm, '').replace(/```$/gm, '').trim();
+  /**
+   * 不正・途切れた応答に対する修正依頼の試行を作成（上限に達した場合はnull）
+   * 前回の応答と問題点を会話に追加し、途切れた場合はmax_tokensを増やす
+   */
+  private createRepairAttempt(
+    attempt: AnalysisAttempt,
+    content: ResponseContentBlock[],
+    evaluation: Extract<ResponseEvaluation, { ok: false }>
+  ): AnalysisAttempt | null {
+    if (attempt.repairCount >= this.maxRepairAttempts) {
+      return null;
+    }
 
-            const parsed = JSON.parse(jsonText);
+    const maxTokens = evaluation.truncated
+      ? Math.max(attempt.maxTokens, Math.min(attempt.maxTokens * 2, REPAIR_MAX_TOKENS_LIMIT))
+      : attempt.maxTokens;
 
-            // 配列形式の応答に対応（1つのメッセージから複数の知見を抽出する場合）
-            const items = Array.isArray(parsed) ? parsed : [parsed];
+    // 応答が空の場合は会話を続けられないため、最初から送り直す
+    if (content.length === 0) {
+      return { ...attempt, maxTokens, repairCount: attempt.repairCount + 1 };
+    }
 
-            for (const item of items) {
-              // 必須フィールドのバリデーション（message_idは不要）
-              if (!item.versatility || !item.category) {
-                this.logger.warn(`必須フィールド不足をスキップ: ${result.custom_id}`, item);
-                parseErrorCount++;
-                continue;
-              }
+    const instruction = [
+      '前回の出力には以下の問題がありました。修正して、すべての知見をもう一度出力してください。',
+      ...evaluation.errors.map(error => `- ${error}`),
+      evaluation.truncated ? '出力が長すぎる場合は formatted_content を簡潔にしてください。' : '',
+      this.outputMode === 'tool'
+        ? `${KNOWLEDGE_TOOL_NAME} ツールで結果を返してください。`
+        : '【出力形式】のJSONのみを出力してください。'
+    ].filter(line => line !== '').join('\n');
+
+    const assistantContent = content.map(block => block.type === 'tool_use'
+      ? { type: 'tool_use' as const, id: block.id, name: block.name, input: block.input }
+      : { type: 'text' as const, text: block.text });
+    const toolUses = content.filter(block => block.type === 'tool_use');
+    const userContent: Anthropic.MessageParam['content'] = toolUses.length > 0
+      ? toolUses.map((block, index) => ({
+          type: 'tool_result' as const,
+          tool_use_id: block.type === 'tool_use' ? block.id : '',
+          is_error: true,
+          content: index === 0 ? instruction : '上記の指示に従ってください。'
+        }))
+      : instruction;
+
+    return {
+      ...attempt,
+      messages: [
+        ...attempt.messages,
+        { role: 'assistant', content: assistantContent },
+        { role: 'user', content: userContent }
+      ],
+      maxTokens,
+      repairCount: attempt.repairCount + 1
+    };
+  }
 
-              // メタデータを追加
-              analyzed.push({
-                ...item,
-                message_id: messageId,
-                date: date
-              } as AnalyzedMessage);
-            }
-          } catch (e) {
-            parseErrorCount++;
-            const error = e instanceof Error ? e : new Error(String(e));
-            const errorMsg = error.message;
-
-            // エラー種別の判定と対処方法の提示
-            let errorType = 'unknown';
-            let suggestion = '';
-
-            const currentMaxTokens = getMaxTokens();
-            if (errorMsg.includes('Unterminated string') || errorMsg.includes('Unexpected end of JSON')) {
-              errorType = 'truncated';
-              suggestion = `\n  💡 対処方法: .envファイルで CLAUDE_MAX_TOKENS を増やしてください\n     現在値: ${currentMaxTokens}\n     推奨値: ${currentMaxTokens + 500}`;
-            } else if (errorMsg.includes('Unexpected token')) {
-              errorType = 'format';
-              suggestion = '\n  💡 対処方法: JSON形式が不正です。プロンプトの指示を確認してください';
-            } else {
-              suggestion = '\n  💡 対処方法: JSONパースに失敗しました。応答内容を確認してください';
-            }
+  /**
+   * 修正依頼の上限に達しても正しい応答が得られなかったリクエストをログ出力
+   */
+  private logRepairFailure(attempt: AnalysisAttempt, evaluation: Extract<ResponseEvaluation, { ok: false }>): void {
+    const label = attempt.request.label;
+    if (evaluation.parseError !== undefined) {
+      this.logParseError(label, evaluation.parseError, evaluation.rawText ?? '', attempt.maxTokens);
+    } else {
+      this.logger.error(`\n❌ 出力がスキーマに合いません: ${label}（修正依頼${attempt.repairCount}回）`);
+      for (const error of evaluation.errors) {
+        this.logger.error(`  - ${error}`);
+      }
+    }
+    if (evaluation.items.length > 0) {
+      this.logger.warn(`${label}: 検証を通過した${evaluation.items.length}件の知見のみ採用します`);
+    }
+  }
 
-            this.logger.error(`\n❌ JSON parse error for ${result.custom_id}`);
-            this.logger.error(`Error type: ${errorType}`);
-            this.logger.error(`Error: ${errorMsg}`, error);
-            this.logger.error(`Response length: ${content.text.length} chars`);
-            this.logger.error(`Current max_tokens: ${currentMaxTokens} (env var: "${process.env.CLAUDE_MAX_TOKENS || 'not set'}")${suggestion}`);
-            this.logger.error(`Raw response (first 1000 chars):\n${content.text.substring(0, 1000)}`);
+  /**
+   * Batch APIでリクエストを実行
+   * batchSubmitOnlyの場合は送信後すぐにnullを返す
+   */
+  private async runBatch(attempts: AnalysisAttempt[], tracker?: BatchJobTracker): Promise<AnalysisOutcome | null> {
+    const state = await this.submitBatch(attempts, { items: [], failures: [], usage: emptyUsage() }, tracker);
+    if (this.batchSubmitOnly) {
+      this.logger.info(`Batchを送信しました（完了を待たずに終了します）: ${state.batchId}`);
+      return null;
+    }
+    return this.collectBatch(state, tracker);
+  }
 
-            if (content.text.length > 1000) {
-              this.logger.error(`Raw response (last 500 chars):\n${content.text.substring(content.text.length - 500)}`);
+  /**
+   * 送信済みのBatchの完了を待って結果を回収
+   * 不正・途切れた応答は修正依頼をまとめて再度Batchで送信する（最大maxRepairAttempts回）
+   */
+  async collectBatch(state: BatchState, tracker?: BatchJobTracker): Promise<AnalysisOutcome> {
+    let current = state;
+
+    while (true) {
+      // custom_id → 試行（メタデータの付与・修正依頼に使用）
+      const attemptMap = new Map(current.attempts.map(attempt => [attempt.request.customId, attempt]));
+      const completedBatch = await this.waitForBatchCompletion(current.batchId);
+      const results = await this.getBatchApi().results(completedBatch.id);
+
+      const analyzed = [...current.analyzed];
+      const failures = [...(current.failures ?? [])];  // 失敗の記録より前に送信したBatchにはない
+      let usage = { ...emptyUsage(), ...current.usage };  // 使用量・キャッシュの記録より前に送信したBatchにはない
+      const repairs: AnalysisAttempt[] = [];
+
+      // 結果をパース
+      this.logger.info(`結果を取得中...`);
+      for await (const result of results) {
+        const attempt = attemptMap.get(result.custom_id);
+        if (!attempt) {
+          this.logger.error(`custom_id ${result.custom_id} に対応するメッセージが見つかりません`);
+          continue;
+        }
+        attemptMap.delete(result.custom_id);
+
+        if (result.result.type === 'succeeded') {
+          const { content, stop_reason } = result.result.message;
+          usage = addUsage(usage, fromApiUsage(result.result.message.usage));
+          const evaluation = this.evaluateResponse(attempt.request, content, stop_reason);
+          if (evaluation.ok) {
+            analyzed.push(...evaluation.items);
+            continue;
+          }
+
+          const repair = this.createRepairAttempt(attempt, content, evaluation);
+          if (repair) {
+            this.logger.warn(`出力が不正なため修正を依頼します: ${attempt.request.label}（${evaluation.errors[0]}）`);
+            repairs.push(repair);
+          } else {
+            this.logRepairFailure(attempt, evaluation);
+            analyzed.push(...evaluation.items);
+            if (evaluation.items.length === 0) {
+              failures.push(toFailure(attempt.request, categorizeEvaluation(evaluation), evaluation.errors.join(' / ')));
             }
-            this.logger.error(''); // 空行
           }
+        } else if (result.result.type === 'errored') {
+          const error = result.result.error.error;
+          this.logger.error(`API error for ${result.custom_id}: ${error.type}`);
+          let detail: string = error.type;
+          if ('message' in error) {
+            this.logger.error(`Error message: ${error.message}`);
+            detail = `${error.type}: ${error.message}`;
+          }
+          failures.push(toFailure(attempt.request, 'api_error', detail));
+        } else {
+          this.logger.error(`Unexpected result type for ${result.custom_id}: ${result.result.type}`);
+          failures.push(toFailure(attempt.request, result.result.type, `Batchのリクエストが ${result.result.type} で終了しました`));
         }
-      } else if (result.result.type === 'errored') {
-        parseErrorCount++;
-        this.logger.error(`API error for ${result.custom_id}: ${result.result.error.error.type}`);
-        if ('message' in result.result.error.error) {
-          this.logger.error(`Error message: ${result.result.error.error.message}`);
+      }
+
+      // 結果が返されなかったリクエストも失敗として扱う
+      for (const attempt of attemptMap.values()) {
+        this.logger.error(`結果が返されませんでした: ${attempt.request.label}`);
+        failures.push(toFailure(attempt.request, 'api_error', 'Batchの結果に含まれていません'));
+      }
+
+      if (repairs.length === 0) {
+        if (failures.length > 0) {
+          this.logger.warn(`\n${failures.length}件の処理に失敗しました（次回の実行で再試行します）`);
         }
-      } else {
-        parseErrorCount++;
-        this.logger.error(`Unexpected result type for ${result.custom_id}: ${result.result.type}`);
+        this.logger.info(`分析完了: ${analyzed.length}件`);
+        this.logger.info(`トークン使用量: ${formatUsage(usage)}（${usage.requests}リクエスト）`);
+        return { items: analyzed, failures, usage };
       }
+
+      this.logger.info(`\n修正依頼のBatchを送信します（${repairs.length}件）`);
+      current = await this.submitBatch(repairs, { items: analyzed, failures, usage }, tracker, current.batchId);
     }
+  }
+
+  /**
+   * Batchを作成して記録する
+   * @param previous それまでのBatchで得られた知見・失敗・トークン使用量（修正依頼のBatchに引き継ぐ）
+   * @param replacedBatchId 修正依頼の場合、置き換え前のBatch ID
+   */
+  private async submitBatch(
+    attempts: AnalysisAttempt[],
+    previous: AnalysisOutcome,
+    tracker?: BatchJobTracker,
+    replacedBatchId?: string
+  ): Promise<BatchState> {
+    // Batch API用のリクエストを作成
+    const requests = attempts.map(attempt => this.toPreparedRequest(attempt));
 
-    if (parseErrorCount > 0) {
-      this.logger.warn(`\n${parseErrorCount}/${processedCount}件の処理に失敗しました`);
+    // Batch作成
+    this.logger.info(`Batch作成リクエスト送信中...`);
+    const batchCreateStartTime = Date.now();
+
+    const batch = await this.getBatchApi().create(requests);
+
+    const batchCreateElapsed = Date.now() - batchCreateStartTime;
+    this.logger.info(`Batch作成完了: ${batch.id} (作成時間: ${batchCreateElapsed}ms)`);
+    this.logger.info(`ステータス: ${batch.processing_status}`);
+    this.logger.info(`リクエスト数: ${requests.length}件`);
+
+    // created_atとexpires_atを表示
+    if (batch.created_at) {
+      const createdAt = new Date(batch.created_at);
+      this.logger.info(`作成日時: ${createdAt.toLocaleString('ja-JP')}`);
+    }
+    if (batch.expires_at) {
+      const expiresAt = new Date(batch.expires_at);
+      this.logger.info(`有効期限: ${expiresAt.toLocaleString('ja-JP')}`);
     }
 
-    this.logger.info(`分析完了: ${analyzed.length}件`);
-    return analyzed;
+    const state: BatchState = {
+      batchId: batch.id,
+      model: this.model,
+      createdAt: batch.created_at,
+      expiresAt: batch.expires_at ?? null,
+      attempts,
+      analyzed: previous.items,
+      failures: previous.failures,
+      usage: previous.usage
+    };
+    await tracker?.onSubmitted(state, replacedBatchId);
+    return state;
   }
 
   /**
-   * Realtime APIでメッセージを分析
-   * 通常価格だが、高速（数秒〜数分）
+   * Realtime APIでリクエストを実行（5件ずつ並列）
+   * systemがある場合は、最初の1件でプロンプトキャッシュを作成してから残りを並列に送る
    */
-  async analyzeRealtime(messages: ChatworkMessage[], roleResolver?: (accountId: number) => ResolvedRole): Promise<AnalyzedMessage[]> {
-    this.logger.info(`Realtime API処理開始: ${messages.length}件のメッセージ`);
+  private async runRealtime(attempts: AnalysisAttempt[]): Promise<AnalysisOutcome> {
     this.logger.info(`並列実行数: 5件ずつ`);
 
     const analyzed: AnalyzedMessage[] = [];
-    let parseErrorCount = 0;
+    const failures: AnalysisFailure[] = [];
+    let usage = emptyUsage();
     const CONCURRENCY = 5; // 並列実行数（API制限を考慮）
 
+    // キャッシュは最初の応答が始まるまで使えないため、同時に送るとすべてのリクエストで書き込みになる
+    const warmUp = this.provider.supportsPromptCache && attempts.length > 1 && attempts[0].system !== undefined;
+    const chunks: AnalysisAttempt[][] = warmUp ? [attempts.slice(0, 1)] : [];
+    for (let i = warmUp ? 1 : 0; i < attempts.length; i += CONCURRENCY) {
+      chunks.push(attempts.slice(i, i + CONCURRENCY));
+    }
+
     const startTime = Date.now();
+    let progress = 0;
 
     // 5件ずつ並列処理
-    for (let i = 0; i < messages.length; i += CONCURRENCY) {
-      const batch = messages.slice(i, i + CONCURRENCY);
-      const batchNum = Math.floor(i / CONCURRENCY) + 1;
-      const totalBatches = Math.ceil(messages.length / CONCURRENCY);
-
-      this.logger.info(`バッチ ${batchNum}/${totalBatches} 処理中 (${batch.length}件)...`);
-
-      const promises = batch.map(async (msg) => {
-        try {
-          const response = await this.client.messages.create({
-            model: this.model,
-            max_tokens: getMaxTokens(),
-            messages: [{
-              role: 'user',
-              content: this.createAnalysisPrompt(msg, roleResolver)
-            }]
-          });
-
-          const content = response.content[0];
-          if (content.type === 'text') {
-            // JSONを抽出してパース（複数パターンに対応）
-            let jsonText = content.text.trim();
-
-            // パターン1: ```json ... ``` 形式
-            let jsonMatch = jsonText.match(/```json\s*([\s\S]*?)```/);
-            if (jsonMatch) {
-              jsonText = jsonMatch[1].trim();
-            } else {
-              // パターン2: ``` ... ``` 形式（json指定なし）
-              jsonMatch = jsonText.match(/```\s*([\s\S]*?)```/);
-              if (jsonMatch) {
-                jsonText = jsonMatch[1].trim();
-              }
-            }
-
-            // JSON文字列がまだ```で始まっている場合は除去（念のため）
-            jsonText = jsonText.replace(/^```(json)?/gm, '').replace(/```$/gm, '').trim();
-
-            try {
-              const parsed = JSON.parse(jsonText);
-
-              // 配列形式の応答に対応（1つのメッセージから複数の知見を抽出する場合）
-              const items = Array.isArray(parsed) ? parsed : [parsed];
-
-              // メタデータを準備
-              const messageId = msg.message_id;
-              const date = new Date(msg.send_time * 1000).toISOString();
-
-              // 必須フィールドのバリデーション
-              const validItems: AnalyzedMessage[] = [];
-              for (const item of items) {
-                // 必須フィールドチェック（message_idは不要）
-                if (!item.versatility || !item.category) {
-                  this.logger.warn(`必須フィールド不足をスキップ: ${msg.message_id}`, item);
-                  continue;
-                }
-
-                // メタデータを追加
-                validItems.push({
-                  ...item,
-                  message_id: messageId,
-                  date: date
-                } as AnalyzedMessage);
-              }
-
-              if (validItems.length === 0) {
-                return { success: false, messageId: msg.message_id, error: new Error('No valid items after validation') };
-              }
-
-              return { success: true, data: validItems, messageId: msg.message_id };
-            } catch (parseError) {
-              const error = parseError instanceof Error ? parseError : new Error(String(parseError));
-              const errorMsg = error.message;
-
-              // エラー種別の判定と対処方法の提示
-              let errorType = 'unknown';
-              let suggestion = '';
-              const currentMaxTokens = getMaxTokens();
-
-              if (errorMsg.includes('Unterminated string') || errorMsg.includes('Unexpected end of JSON')) {
-                errorType = 'truncated';
-                suggestion = `\n  💡 対処方法: .envファイルで CLAUDE_MAX_TOKENS を増やしてください\n     現在値: ${currentMaxTokens}\n     推奨値: ${currentMaxTokens + 500}`;
-              } else if (errorMsg.includes('Unexpected token')) {
-                errorType = 'format';
-                suggestion = '\n  💡 対処方法: JSON形式が不正です。プロンプトの指示を確認してください';
-              } else {
-                suggestion = '\n  💡 対処方法: JSONパースに失敗しました。応答内容を確認してください';
-              }
-
-              this.logger.error(`\n❌ JSON parse error for message ${msg.message_id}`);
-              this.logger.error(`Error type: ${errorType}`);
-              this.logger.error(`Parse error: ${errorMsg}`, error);
-              this.logger.error(`Response length: ${content.text.length} chars`);
-              this.logger.error(`Current max_tokens: ${currentMaxTokens} (env var: "${process.env.CLAUDE_MAX_TOKENS || 'not set'}")${suggestion}`);
-              this.logger.error(`Raw response (first 1000 chars):\n${content.text.substring(0, 1000)}`);
-
-              if (content.text.length > 1000) {
-                this.logger.error(`Raw response (last 500 chars):\n${content.text.substring(content.text.length - 500)}`);
-              }
-              this.logger.error(''); // 空行
-              return { success: false, messageId: msg.message_id, error: parseError };
-            }
-          }
-        } catch (e) {
-          this.logger.error(`API error for message ${msg.message_id}: ${e instanceof Error ? e.message : String(e)}`);
-          return { success: false, messageId: msg.message_id, error: e };
-        }
-        return { success: false, messageId: msg.message_id };
-      });
+    for (const [index, batch] of chunks.entries()) {
+      this.logger.info(`バッチ ${index + 1}/${chunks.length} 処理中 (${batch.length}件)...`);
 
-      const results = await Promise.all(promises);
+      const results = await Promise.all(batch.map(attempt => this.runRealtimeRequest(attempt)));
 
       for (const result of results) {
-        if (result.success && 'data' in result && result.data) {
-          // 配列形式の応答に対応（1つのメッセージから複数の知見）
-          if (Array.isArray(result.data)) {
-            analyzed.push(...result.data);
-          } else {
-            analyzed.push(result.data);
-          }
-        } else {
-          parseErrorCount++;
+        // 配列形式の応答に対応（1つのリクエストから複数の知見）
+        analyzed.push(...result.items);
+        usage = addUsage(usage, result.usage);
+        if (result.failure) {
+          failures.push(result.failure);
         }
       }
 
       // 進捗表示
-      const progress = Math.min(i + CONCURRENCY, messages.length);
+      progress += batch.length;
       const elapsedSec = Math.floor((Date.now() - startTime) / 1000);
-      this.logger.info(`進捗: ${progress}/${messages.length}件 (経過: ${elapsedSec}秒)`);
+      this.logger.info(`進捗: ${progress}/${attempts.length}件 (経過: ${elapsedSec}秒)`);
     }
 
     const totalElapsedSec = Math.floor((Date.now() - startTime) / 1000);
     this.logger.info(`処理完了: ${analyzed.length}件 (総時間: ${totalElapsedSec}秒)`);
+    this.logger.info(`トークン使用量: ${formatUsage(usage)}（${usage.requests}リクエスト）`);
 
-    if (parseErrorCount > 0) {
-      this.logger.warn(`\n${parseErrorCount}/${messages.length}件の処理に失敗しました`);
+    if (failures.length > 0) {
+      this.logger.warn(`\n${failures.length}/${attempts.length}件の処理に失敗しました（次回の実行で再試行します）`);
     }
 
-    return analyzed;
+    return { items: analyzed, failures, usage };
   }
 
   /**
-   * メッセージを分析（API種別に応じて自動振り分け）
+   * Realtime APIで1リクエストを実行（不正・途切れた応答は最大maxRepairAttempts回まで修正を依頼）
    */
-  async analyze(messages: ChatworkMessage[], roleResolver?: (accountId: number) => ResolvedRole): Promise<AnalyzedMessage[]> {
-    if (this.apiMode === 'realtime') {
-      this.logger.info('API種別: Realtime API (高速、通常価格)');
-      return this.analyzeRealtime(messages, roleResolver);
+  private async runRealtimeRequest(
+    firstAttempt: AnalysisAttempt
+  ): Promise<{ items: AnalyzedMessage[]; usage: TokenUsage; failure?: AnalysisFailure }> {
+    const { request } = firstAttempt;
+    let attempt = firstAttempt;
+    let usage = emptyUsage();
+
+    try {
+      while (true) {
+        const response = await this.provider.createMessage(this.createParams(attempt));
+        usage = addUsage(usage, response.usage);
+        const evaluation = this.evaluateResponse(request, response.content, response.stop_reason);
+        if (evaluation.ok) {
+          return { items: evaluation.items, usage };
+        }
+
+        const repair = this.createRepairAttempt(attempt, response.content, evaluation);
+        if (!repair) {
+          this.logRepairFailure(attempt, evaluation);
+          return evaluation.items.length > 0
+            ? { items: evaluation.items, usage }
+            : { items: [], usage, failure: toFailure(request, categorizeEvaluation(evaluation), evaluation.errors.join(' / ')) };
+        }
+
+        this.logger.warn(`出力が不正なため修正を依頼します: ${request.label}（${evaluation.errors[0]}）`);
+        attempt = repair;
+      }
+    } catch (e) {
+      const errorMsg = e instanceof Error ? e.message : String(e);
+      this.logger.error(`API error for ${request.label}: ${errorMsg}`);
+      return { items: [], usage, failure: toFailure(request, 'api_error', errorMsg) };
+    }
+  }
+
+  /**
+   * JSONパースエラーの内容と対処方法をログ出力
+   */
+  private logParseError(label: string, e: unknown, text: string, maxTokens: number): void {
+    const error = e instanceof Error ? e : new Error(String(e));
+    const errorMsg = error.message;
+
+    // エラー種別の判定と対処方法の提示
+    let errorType = 'unknown';
+    let suggestion = '';
+
+    if (errorMsg.includes('Unterminated string') || errorMsg.includes('Unexpected end of JSON')) {
+      errorType = 'truncated';
+      suggestion = `\n  💡 対処方法: .envファイルで CLAUDE_MAX_TOKENS を増やしてください\n     現在値: ${getMaxTokens()}\n     推奨値: ${maxTokens + 500}`;
+    } else if (errorMsg.includes('Unexpected token')) {
+      errorType = 'format';
+      suggestion = '\n  💡 対処方法: JSON形式が不正です。プロンプトの指示を確認してください';
     } else {
-      this.logger.info('API種別: Batch API (50%割引、処理時間: 数分〜24時間)');
-      return this.analyzeBatch(messages, roleResolver);
+      suggestion = '\n  💡 対処方法: JSONパースに失敗しました。応答内容を確認してください';
+    }
+
+    this.logger.error(`\n❌ JSON parse error for ${label}`);
+    this.logger.error(`Error type: ${errorType}`);
+    this.logger.error(`Error: ${errorMsg}`, error);
+    this.logger.error(`Response length: ${text.length} chars`);
+    this.logger.error(`Current max_tokens: ${maxTokens} (env var: "${process.env.CLAUDE_MAX_TOKENS || 'not set'}")${suggestion}`);
+    this.logger.error(`Raw response (first 1000 chars):\n${text.substring(0, 1000)}`);
+
+    if (text.length > 1000) {
+      this.logger.error(`Raw response (last 500 chars):\n${text.substring(text.length - 500)}`);
     }
+    this.logger.error(''); // 空行
   }
 
   /**
@@ -477,7 +913,7 @@ export class ClaudeAnalyzer {
     const TIMEOUT_MS = 30 * 60 * 1000; // 30分でタイムアウト警告
     const POLLING_INTERVAL_MS = 10000; // 10秒ごとにチェック
 
-    let batch = await this.client.beta.messages.batches.retrieve(batchId);
+    let batch = await this.getBatchApi().retrieve(batchId);
 
     // 送信したリクエストの総数を計算（request_countsの合計）
     const totalRequests = batch.request_counts.processing +
@@ -521,7 +957,7 @@ export class ClaudeAnalyzer {
       }
 
       await this.sleep(POLLING_INTERVAL_MS);
-      batch = await this.client.beta.messages.batches.retrieve(batchId);
+      batch = await this.getBatchApi().retrieve(batchId);
     }
 
     const totalElapsedMinutes = Math.floor((Date.now() - startTime) / 60000);
@@ -538,10 +974,20 @@ export class ClaudeAnalyzer {
   /**
    * メッセージ分析用のプロンプト作成
    */
-  private createAnalysisPrompt(message: ChatworkMessage, roleResolver?: (accountId: number) => ResolvedRole): string {
+  private createAnalysisPrompt(
+    message: ChatworkMessage,
+    roleResolver?: (accountId: number) => ResolvedRole,
+    contextResolver?: ContextResolver
+  ): string {
     const date = new Date(message.send_time * 1000).toISOString();
 
     const feedbackText = this.formatFeedbackExamples();
+    const contextText = this.formatContext(contextResolver?.(message) ?? [], roleResolver);
+
+    // Chatwork記法（[info], [code], [To:..] 等）をプレーンテキストに変換
+    // タスクは依頼内容であることが分かるように見出しを付ける
+    const plainBody = toPlainText(message.body);
+    const body = message.source_kind === 'task' ? `【タスク（依頼内容）】\n${plainBody}` : plainBody;
 
     // ロール情報を解決
     const resolved = roleResolver?.(message.account.account_id);
@@ -558,22 +1004,22 @@ export class ClaudeAnalyzer {
         .replace(/\{\{speaker_role_label\}\}/g, roleLabel)
         .replace(/\{\{role_instruction\}\}/g, roleInstruction)
         .replace(/\{\{date\}\}/g, date)
-        .replace(/\{\{body\}\}/g, message.body)
-        .replace(/\{\{feedback_examples\}\}/g, feedbackText);
+        .replace(/\{\{feedback_examples\}\}/g, () => feedbackText)
+        // メッセージ由来のテキストは最後に1回で置換（本文・文脈に含まれる $& や {{body}} を展開しない）
+        .replace(/\{\{(context|body)\}\}/g, (_, key: string) => key === 'context' ? contextText : body);
     }
 
     // デフォルトプロンプト（フォールバック）
     return `あなたはWeb制作チームのチャット履歴から**汎用的な**形式知を抽出するアシスタントです。
 
 【重要】案件固有の内容は除外し、他の案件でも活用できる知見のみを抽出してください。
-${roleInstruction}
-以下のメッセージを分析し、JSON形式で結果を返してください。
-
+【メッセージ】の発言を分析し、JSON形式で結果を返してください。
+${REQUEST_SECTION_START}${roleInstruction}${contextText}
 【メッセージ】
 発言者ロール: ${roleLabel}
 日時: ${date}
-内容: ${message.body}
-
+内容: ${body}
+${REQUEST_SECTION_END}
 【分析指示】
 
 1. カテゴリを以下から選択:
@@ -648,6 +1094,112 @@ ${feedbackText}
 }`;
   }
 
+  /**
+   * 会話ウィンドウ分析用のプロンプト作成
+   * 発言者は実名ではなくウィンドウ内の仮名（発言者1, 2...）とロールラベルのみを渡す
+   */
+  private createWindowPrompt(
+    window: ConversationWindow,
+    roleResolver?: (accountId: number) => ResolvedRole
+  ): string {
+    const feedbackText = this.formatFeedbackExamples();
+    const conversation = this.formatConversation(window.messages, roleResolver);
+    const messageIds = window.messages.map(m => m.message_id).join(', ');
+
+    const template = this.getWindowPromptTemplate();
+    if (template) {
+      return template
+        .replace(/\{\{message_count\}\}/g, String(window.messages.length))
+        .replace(/\{\{message_ids\}\}/g, messageIds)
+        .replace(/\{\{feedback_examples\}\}/g, () => feedbackText)
+        // 会話は最後に置換（発言に含まれる {{feedback_examples}} などを展開しない）
+        .replace(/\{\{conversation\}\}/g, () => conversation);
+    }
+
+    // デフォルトプロンプト（フォールバック）
+    return `あなたはWeb制作チームのチャット履歴から**汎用的な**形式知を抽出するアシスタントです。
+
+【重要】案件固有の内容は除外し、他の案件でも活用できる知見のみを抽出してください。
+
+【会話】の一連のメッセージを分析してください。質問と回答、指摘と補足のように複数の発言にまたがる知見は、1つの知見としてまとめてください。
+発言者がSeniorの発言は「標準」として、Juniorの発言は「事例」として扱い、技術的な正確性を検証してください。
+${REQUEST_SECTION_START}
+【会話】（${window.messages.length}件のメッセージ、対象のmessage_id: ${messageIds}）
+${conversation}${REQUEST_SECTION_END}
+【分析指示】
+
+1. 会話から汎用的な知見を0〜3件抽出してください。知見がない場合は空の配列 [] を返してください。
+2. カテゴリ: "実装ノウハウ" / "制作方針・指示出し" / "トラブル対応" / "質疑応答・相談"
+3. 汎用性: high（どの案件でも活用できる技術知見）/ medium（業界・技術領域特有）/ low（判断の参考になる事例）
+   挨拶・確認・スケジュール調整、具体的な数値や色の指示のみの会話からは抽出しないでください。
+${feedbackText}
+4. タグ（3-5個）、タイトル（20文字以内）を生成してください。
+5. formatted_content は会話の流れ（前提・問題・結論・理由）が単独で理解できるように整形してください。
+   個人名・社名・案件名・URL・認証情報・金額などの機密情報は含めず、一般化してください。
+6. source_message_ids には、その知見に寄与したメッセージのmessage_idをすべて記載してください（対象: 【会話】のmessage_id）。
+
+【出力形式】
+以下のJSON配列で返してください。それ以外は一切出力しないでください。
+
+[
+  {
+    "category": "カテゴリ名",
+    "versatility": "high/medium/low",
+    "title": "タイトル",
+    "tags": ["タグ1", "タグ2", "タグ3"],
+    "formatted_content": "整形後の内容",
+    "source_message_ids": ["message_id", "message_id"]
+  }
+]`;
+  }
+
+  /**
+   * 会話ウィンドウのメッセージをプロンプト用テキストに変換
+   * 発言者はウィンドウ内の登場順に発言者1, 2...と表記する
+   */
+  private formatConversation(messages: ChatworkMessage[], roleResolver?: (accountId: number) => ResolvedRole): string {
+    const aliases = new Map<number, string>();
+    let text = '';
+    for (const message of messages) {
+      const accountId = message.account.account_id;
+      if (!aliases.has(accountId)) {
+        aliases.set(accountId, `発言者${aliases.size + 1}`);
+      }
+      const roleLabel = roleResolver?.(accountId).roleLabel ?? 'Member';
+      const date = new Date(message.send_time * 1000).toISOString();
+      const plainBody = toPlainText(message.body);
+      const body = message.source_kind === 'task' ? `【タスク（依頼内容）】\n${plainBody}` : plainBody;
+      text += `- message_id: ${message.message_id} / ${aliases.get(accountId)}（${roleLabel}） / 日時: ${date}\n  内容: ${body.replace(/\n/g, '\n  ')}\n`;
+    }
+    return text;
+  }
+
+  /**
+   * 文脈メッセージをプロンプト用テキストに変換
+   * 発言者は実名ではなくロールラベルのみを渡す
+   */
+  private formatContext(context: ContextMessage[], roleResolver?: (accountId: number) => ResolvedRole): string {
+    if (context.length === 0) {
+      return '';
+    }
+
+    const relationLabels: Record<ContextMessage['relation'], string> = {
+      previous: '直前の発言',
+      reply_to: '返信先の発言',
+      quoted: '引用元の発言'
+    };
+
+    let text = '\n【文脈（参考情報・分析対象外）】\n';
+    text += '以下は分析対象メッセージを理解するための前後の発言です。知見は必ず【メッセージ】の発言者の内容として抽出し、文脈にしか含まれない内容は知見にしないでください。\n';
+    for (const { relation, message } of context) {
+      const roleLabel = roleResolver?.(message.account.account_id).roleLabel ?? 'Member';
+      const date = new Date(message.send_time * 1000).toISOString();
+      const { body } = truncateMessage(toPlainText(message.body), CONTEXT_MESSAGE_MAX_LENGTH);
+      text += `- [${relationLabels[relation]}] 発言者ロール: ${roleLabel} / 日時: ${date}\n  内容: ${body.replace(/\n/g, '\n  ')}\n`;
+    }
+    return text;
+  }
+
   /**
    * ロールに応じた分析指示を生成
    */
@@ -679,3 +1231,77 @@ ${feedbackText}
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 }
+
+function toAnalysisSource(message: ChatworkMessage): AnalysisSource {
+  return {
+    message_id: message.message_id,
+    send_time: message.send_time,
+    source_kind: message.source_kind
+  };
+}
+
+/**
+ * 検証済みの知見にmessage_id・日時などを付与
+ * 会話単位の分析では、応答のsource_message_idsのうちリクエスト内のIDのみ採用し、なければリクエスト全体を出典とする
+ */
+function toAnalyzedMessage(request: AnalysisRequest, item: KnowledgeItem): AnalyzedMessage {
+  if (!request.withSourceIds) {
+    const [source] = request.sources;
+    return {
+      ...item,
+      message_id: source.message_id,
+      date: new Date(source.send_time * 1000).toISOString(),
+      source_kind: source.source_kind ?? 'message'
+    };
+  }
+
+  const cited = new Set(item.source_message_ids ?? []);
+  const citedSources = request.sources.filter(source => cited.has(source.message_id));
+  // 時系列順に並べ、最初の発言を代表（発言者・日時・リンクの基準）とする
+  const sources = citedSources.length > 0 ? citedSources : request.sources;
+  const primary = sources[0];
+  return {
+    ...item,
+    message_id: primary.message_id,
+    source_message_ids: sources.map(source => source.message_id),
+    date: new Date(primary.send_time * 1000).toISOString(),
+    source_kind: primary.source_kind ?? 'message'
+  };
+}
+
+/**
+ * 置換後のプロンプトをsystem（共通部分）とユーザーメッセージ（{{#request}} 〜 {{/request}} の内側）に分割
+ * 区切りがない場合はプロンプト全体をユーザーメッセージにする
+ */
+function splitPromptSections(prompt: string): { system: string | null; user: string } {
+  const start = prompt.indexOf(REQUEST_SECTION_START);
+  // 本文に区切りの文字列が含まれていても、テンプレートの区切りで分割する
+  const end = prompt.lastIndexOf(REQUEST_SECTION_END);
+  if (start === -1 || end < start) {
+    return { system: null, user: prompt };
+  }
+
+  const before = prompt.slice(0, start).trimEnd();
+  const after = prompt.slice(end + REQUEST_SECTION_END.length).trimStart();
+  return {
+    system: `${before}\n\n${after}`.trim(),
+    user: prompt.slice(start + REQUEST_SECTION_START.length, end).trim()
+  };
+}
+
+function toFailure(request: AnalysisRequest, category: AnalysisErrorCategory, error: string): AnalysisFailure {
+  return {
+    messageIds: request.sources.map(source => source.message_id),
+    category,
+    error
+  };
+}
+
+/**
+ * 修正依頼の上限に達した応答の失敗の種類
+ */
+function categorizeEvaluation(evaluation: Extract<ResponseEvaluation, { ok: false }>): AnalysisErrorCategory {
+  if (evaluation.truncated) return 'truncated';
+  if (evaluation.parseError !== undefined) return 'parse_error';
+  return 'invalid_output';
+}
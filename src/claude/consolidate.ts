@@ -0,0 +1,206 @@
+/**
+ * 繰り返し登場する知見の統合
+ * 同じ助言（例: 「本番ではWP_DEBUGをfalseに」）は数か月おきに繰り返し発言され、別々の知見として分析されるため、
+ * タイトル・タグ・本文の類似度から同じ知見を判定し、1件にまとめて出力する（類似度はローカルで計算し、APIは使わない）
+ * 分析結果のキャッシュは統合前のまま保持する（再分析・フィードバックはメッセージ単位のため）
+ */
+
+import { getMentionedMessageIds, type AnalyzedMessage, type KnowledgeMention } from './analyzer.js';
+
+export interface ConsolidateConfig {
+  threshold: number;  // 類似度（0〜1）がこの値以上の知見を同じ知見とみなす
+}
+
+export const DEFAULT_CONSOLIDATE_CONFIG: ConsolidateConfig = {
+  threshold: 0.45,
+};
+
+// 類似度の重み（どちらの知見にもタグがない場合は、タイトルと本文のみで計算する）
+const TITLE_WEIGHT = 0.5;
+const CONTENT_WEIGHT = 0.3;
+const TAG_WEIGHT = 0.2;
+
+const VERSATILITY_ORDER: Record<AnalyzedMessage['versatility'], number> = { high: 0, medium: 1, low: 2, exclude: 3 };
+
+/**
+ * 類似度の計算用に前処理した知見
+ */
+interface Fingerprint {
+  title: Set<string>;    // タイトルの文字bigram
+  content: Set<string>;  // 本文の文字bigram
+  tags: Set<string>;
+}
+
+interface Cluster<T extends AnalyzedMessage> {
+  representative: T;
+  fingerprint: Fingerprint;
+  members: T[];
+  sourceIds: Set<string>;  // メンバーの元になったメッセージのID
+}
+
+/**
+ * ほぼ同じ知見を1件に統合
+ * - 汎用性が高い順・新しい順に、代表の知見と比べて類似度がしきい値以上なら同じ知見とする
+ *   （代表とのみ比べるため、少しずつ違う知見が連鎖してまとまることはない）
+ * - 同じメッセージから出た知見どうしは、似ていても別の知見として残す（1つのメッセージから複数の知見が出ることがあるため）
+ * - 代表の知見に、すべての言及（メッセージID・日時）・タグ・添付ファイルをまとめる
+ * - 統合しなかった知見はそのまま返す（並び順は元の順）
+ */
+export function consolidateKnowledge<T extends AnalyzedMessage>(
+  items: T[],
+  config: Partial<ConsolidateConfig> = {}
+): T[] {
+  const cfg = { ...DEFAULT_CONSOLIDATE_CONFIG, ...config };
+
+  const prioritized = [...items].sort((a, b) =>
+    VERSATILITY_ORDER[a.versatility] - VERSATILITY_ORDER[b.versatility]
+    || new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+
+  const clusters: Cluster<T>[] = [];
+  for (const item of prioritized) {
+    const fingerprint = toFingerprint(item);
+    const sourceIds = getMentionedMessageIds(item);
+    let best: Cluster<T> | null = null;
+    let bestScore = cfg.threshold;
+    for (const cluster of clusters) {
+      if (sourceIds.some(id => cluster.sourceIds.has(id))) continue;
+      const score = similarity(cluster.fingerprint, fingerprint, bestScore);
+      if (score >= bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+
+    if (best) {
+      best.members.push(item);
+      for (const id of sourceIds) {
+        best.sourceIds.add(id);
+      }
+    } else {
+      clusters.push({ representative: item, fingerprint, members: [item], sourceIds: new Set(sourceIds) });
+    }
+  }
+
+  const merged = new Map(clusters.map(cluster => [cluster.representative, mergeCluster(cluster)]));
+  return items.filter(item => merged.has(item)).map(item => merged.get(item)!);
+}
+
+/**
+ * 言及の回数（統合していない知見は1）
+ */
+export function getMentionCount(item: AnalyzedMessage): number {
+  return item.mentions?.length ?? 1;
+}
+
+/**
+ * 言及にルームIDを付ける（全ルーム統合出力で、ルームをまたいで統合した知見の発言者を解決するため）
+ * 統合済みの知見は言及の回数を引き継ぐ
+ */
+export function assignMentionRoom<T extends AnalyzedMessage>(item: T, roomId: string): T {
+  return {
+    ...item,
+    mentions: (item.mentions ?? [toMention(item)]).map(mention => ({ ...mention, room_id: roomId }))
+  };
+}
+
+/**
+ * 代表の知見にすべての言及をまとめる
+ */
+function mergeCluster<T extends AnalyzedMessage>(cluster: Cluster<T>): T {
+  const { representative, members } = cluster;
+  if (members.length === 1) {
+    return representative;
+  }
+
+  // 同じメッセージの言及は1回として数える
+  const mentionMap = new Map(members
+    .flatMap(member => member.mentions ?? [toMention(member)])
+    .map(mention => [mention.message_id, mention]));
+  const mentions: KnowledgeMention[] = [...mentionMap.values()]
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const tags = [...new Set(members.flatMap(member => member.tags))];
+
+  const files = new Map(members
+    .flatMap(member => member.referenced_files ?? [])
+    .map(file => [file.file_id, file]));
+
+  return {
+    ...representative,
+    tags,
+    mentions,
+    ...(files.size > 0 && { referenced_files: [...files.values()] })
+  };
+}
+
+function toMention(item: AnalyzedMessage): KnowledgeMention {
+  return {
+    message_id: item.message_id,
+    date: item.date,
+    ...(item.source_message_ids && { source_message_ids: item.source_message_ids })
+  };
+}
+
+/**
+ * 2つの知見の類似度（0〜1）
+ * 本文の比較は重いため、タイトル・タグだけでminScoreに届かないことが確定した場合は省略する
+ */
+function similarity(a: Fingerprint, b: Fingerprint, minScore: number): number {
+  const hasTags = a.tags.size > 0 || b.tags.size > 0;
+  const weightSum = TITLE_WEIGHT + CONTENT_WEIGHT + (hasTags ? TAG_WEIGHT : 0);
+
+  const partial = TITLE_WEIGHT * dice(a.title, b.title) + (hasTags ? TAG_WEIGHT * jaccard(a.tags, b.tags) : 0);
+  if ((partial + CONTENT_WEIGHT) / weightSum < minScore) {
+    return 0;
+  }
+  return (partial + CONTENT_WEIGHT * dice(a.content, b.content)) / weightSum;
+}
+
+function toFingerprint(item: AnalyzedMessage): Fingerprint {
+  return {
+    title: toBigrams(item.title),
+    content: toBigrams(item.formatted_content),
+    tags: new Set(item.tags.map(normalize).filter(tag => tag !== ''))
+  };
+}
+
+/**
+ * 表記の揺れ（全角・半角、大文字・小文字、空白・記号）を除いた文字列
+ */
+function normalize(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/[\s\p{P}\p{S}]+/gu, '');
+}
+
+/**
+ * 文字bigramの集合（日本語は単語の区切りがないため、文字単位で比較する）
+ */
+function toBigrams(text: string): Set<string> {
+  const normalized = normalize(text);
+  const bigrams = new Set<string>();
+  if (normalized.length === 1) {
+    bigrams.add(normalized);
+  }
+  for (let i = 0; i < normalized.length - 1; i++) {
+    bigrams.add(normalized.slice(i, i + 2));
+  }
+  return bigrams;
+}
+
+function dice(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  for (const value of a) {
+    if (b.has(value)) intersection++;
+  }
+  return (2 * intersection) / (a.size + b.size);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let intersection = 0;
+  for (const value of a) {
+    if (b.has(value)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
@@ -0,0 +1,81 @@
+/**
+ * 分析対象メッセージの前後関係（文脈）を解決
+ * 短い返信でも、直前のやりとりや返信先・引用元があれば知見として判定できるようにする
+ */
+
+import type { ChatworkMessage } from '../chatwork/client.js';
+import type { ThreadLink } from '../chatwork/thread.js';
+
+/**
+ * 文脈の取り込み方
+ * - none: 文脈なし（従来動作）
+ * - previous: 同じルームの直前N件
+ * - thread: 返信先・引用元のメッセージ
+ */
+export type ContextMode = 'none' | 'previous' | 'thread';
+
+export interface ContextMessage {
+  relation: 'previous' | 'reply_to' | 'quoted';
+  message: ChatworkMessage;
+}
+
+export type ContextResolver = (message: ChatworkMessage) => ContextMessage[];
+
+export function isContextMode(value: string): value is ContextMode {
+  return ['none', 'previous', 'thread'].includes(value);
+}
+
+/**
+ * 文脈リゾルバを作成
+ * @param allMessages キャッシュ済みの全メッセージ（フィルタ・切り詰め前のもの）
+ * @param threadLinks message_id → スレッド情報（threadモードで使用）
+ * @param mode 文脈の取り込み方
+ * @param size previousモードで取り込む件数
+ * @returns modeがnoneの場合はundefined
+ */
+export function createContextResolver(
+  allMessages: ChatworkMessage[],
+  threadLinks: Record<string, ThreadLink>,
+  mode: ContextMode,
+  size: number
+): ContextResolver | undefined {
+  if (mode === 'none' || (mode === 'previous' && size <= 0)) {
+    return undefined;
+  }
+
+  // 時系列（古い順）に並べ、message_id → 位置のインデックスを作成
+  const chronological = [...allMessages].sort((a, b) => a.send_time - b.send_time);
+  const indexById = new Map<string, number>();
+  chronological.forEach((msg, index) => indexById.set(msg.message_id, index));
+
+  if (mode === 'previous') {
+    return (message) => {
+      const index = indexById.get(message.message_id);
+      if (index === undefined) return [];
+      return chronological
+        .slice(Math.max(0, index - size), index)
+        .map(msg => ({ relation: 'previous' as const, message: msg }));
+    };
+  }
+
+  return (message) => {
+    const link = threadLinks[message.message_id];
+    if (!link) return [];
+
+    const context: ContextMessage[] = [];
+    const seen = new Set<string>();
+    const push = (relation: ContextMessage['relation'], messageId: string | null) => {
+      if (!messageId || seen.has(messageId) || messageId === message.message_id) return;
+      const index = indexById.get(messageId);
+      if (index === undefined) return;  // 別ルームやキャッシュ外のメッセージは対象外
+      seen.add(messageId);
+      context.push({ relation, message: chronological[index] });
+    };
+
+    push('reply_to', link.parent_message_id);
+    for (const quotedId of link.quoted_message_ids) {
+      push('quoted', quotedId);
+    }
+    return context;
+  };
+}
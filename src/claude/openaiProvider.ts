@@ -0,0 +1,256 @@
+import fetch, { type Response } from 'node-fetch';
+import type Anthropic from '@anthropic-ai/sdk';
+import type { AnalysisProvider, MessageRequest, ProviderResponse, ResponseContentBlock } from './provider.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * OpenAI互換のChat Completions APIへの接続設定
+ */
+export interface OpenAICompatibleConfig {
+  baseUrl: string;          // 例: http://localhost:11434/v1（Ollama）、http://localhost:8080/v1（llama.cpp）
+  apiKey?: string;          // ローカルサーバーでは不要なことが多い
+  timeoutSeconds?: number;  // 1リクエストの応答を待つ上限
+}
+
+// ローカルのモデルは応答に時間がかかるため長めに待つ
+export const DEFAULT_OPENAI_TIMEOUT_SECONDS = 600;
+
+const MAX_RETRIES = 3;              // 429/5xx/通信エラー時の最大リトライ回数
+const RETRY_BASE_DELAY_MS = 1000;   // バックオフの初期待機時間（1秒 → 2秒 → 4秒）
+
+type ChatMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string | null; tool_calls?: ChatToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface ChatCompletionResponse {
+  choices?: {
+    message: { content?: string | null; tool_calls?: Partial<ChatToolCall>[] };
+    finish_reason: string | null;
+  }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * OpenAI互換のChat Completions API（llama.cpp・Ollama・vLLMなど）
+ * Anthropic形式のリクエストをChat Completionsの形式に変換して送り、応答をAnthropic形式に戻す
+ * Batch API・プロンプトキャッシュには対応しない
+ */
+export class OpenAICompatibleProvider implements AnalysisProvider {
+  readonly name = 'openai';
+  readonly label: string;
+  readonly supportsPromptCache = false;
+  readonly batch = null;
+  private endpoint: string;
+  private apiKey?: string;
+  private timeoutMs: number;
+  private logger: Logger;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    this.apiKey = config.apiKey;
+    this.timeoutMs = (config.timeoutSeconds ?? DEFAULT_OPENAI_TIMEOUT_SECONDS) * 1000;
+    this.label = `OpenAI互換API (${config.baseUrl})`;
+    this.logger = new Logger('OpenAI');
+  }
+
+  async createMessage(request: MessageRequest): Promise<ProviderResponse> {
+    const body = {
+      model: request.model,
+      max_tokens: request.max_tokens,
+      messages: toChatMessages(request),
+      ...(request.tools && {
+        tools: request.tools.flatMap(toFunctionTool),
+        tool_choice: toToolChoice(request.tool_choice)
+      })
+    };
+
+    const response = await this.post(body);
+    const data = await response.json() as ChatCompletionResponse;
+    const choice = data.choices?.[0];
+    if (!choice) {
+      throw new Error('OpenAI互換APIの応答に choices がありません');
+    }
+
+    return {
+      content: toContentBlocks(choice.message),
+      stop_reason: toStopReason(choice.finish_reason),
+      usage: {
+        requests: 1,
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+        cacheWriteTokens: 0,
+        cacheReadTokens: 0
+      }
+    };
+  }
+
+  /**
+   * Chat Completions APIへのPOSTリクエスト
+   * - 429・5xx・通信エラーは指数バックオフでリトライ（タイムアウトはリトライしない）
+   */
+  private async post(body: unknown): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+      let response: Response;
+      try {
+        response = await fetch(this.endpoint, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
+          },
+          body: JSON.stringify(body),
+          signal: controller.signal
+        });
+      } catch (e) {
+        if (controller.signal.aborted) {
+          throw new Error(`OpenAI互換APIの応答がタイムアウトしました（${this.timeoutMs / 1000}秒）`);
+        }
+        if (attempt >= MAX_RETRIES) {
+          throw e;
+        }
+        const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+        const errorMsg = e instanceof Error ? e.message : String(e);
+        this.logger.warn(`通信エラー: ${errorMsg} - ${delay / 1000}秒後にリトライします (${attempt + 1}/${MAX_RETRIES})`);
+        await this.sleep(delay);
+        continue;
+      } finally {
+        clearTimeout(timer);
+      }
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (retryable && attempt < MAX_RETRIES) {
+        const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+        this.logger.warn(`OpenAI互換API ${response.status} ${response.statusText} - ${delay / 1000}秒後にリトライします (${attempt + 1}/${MAX_RETRIES})`);
+        await this.sleep(delay);
+        continue;
+      }
+
+      if (!response.ok) {
+        const detail = (await response.text()).substring(0, 500);
+        throw new Error(`OpenAI互換API Error: ${response.status} ${response.statusText}${detail ? ` - ${detail}` : ''}`);
+      }
+
+      return response;
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Anthropic形式のsystem・messagesをChat Completionsのmessagesに変換
+ * 修正依頼の会話（tool_use → tool_result）は、tool_calls → roleがtoolのメッセージにする
+ */
+function toChatMessages(request: MessageRequest): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  if (request.system) {
+    const system = typeof request.system === 'string'
+      ? request.system
+      : request.system.map(block => block.text).join('\n');
+    messages.push({ role: 'system', content: system });
+  }
+
+  for (const message of request.messages) {
+    if (typeof message.content === 'string') {
+      messages.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    const text = message.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .filter(text => text !== '')
+      .join('\n');
+
+    if (message.role === 'assistant') {
+      const toolCalls: ChatToolCall[] = message.content.flatMap(block => block.type === 'tool_use'
+        ? [{ id: block.id, type: 'function' as const, function: { name: block.name, arguments: JSON.stringify(block.input) } }]
+        : []);
+      messages.push({ role: 'assistant', content: text || null, ...(toolCalls.length > 0 && { tool_calls: toolCalls }) });
+      continue;
+    }
+
+    for (const block of message.content) {
+      if (block.type === 'tool_result') {
+        const content = typeof block.content === 'string'
+          ? block.content
+          : (block.content ?? []).map(part => part.type === 'text' ? part.text : '').join('\n');
+        messages.push({ role: 'tool', tool_call_id: block.tool_use_id, content });
+      }
+    }
+    if (text) {
+      messages.push({ role: 'user', content: text });
+    }
+  }
+  return messages;
+}
+
+function toFunctionTool(tool: Anthropic.Beta.Messages.BetaToolUnion) {
+  if (!('input_schema' in tool)) {
+    return [];
+  }
+  return [{
+    type: 'function' as const,
+    function: { name: tool.name, description: tool.description, parameters: tool.input_schema }
+  }];
+}
+
+function toToolChoice(choice: Anthropic.Beta.Messages.BetaToolChoice | undefined) {
+  switch (choice?.type) {
+    case 'tool':
+      return { type: 'function' as const, function: { name: choice.name } };
+    case 'any':
+      return 'required' as const;
+    default:
+      return 'auto' as const;
+  }
+}
+
+/**
+ * Chat Completionsの応答メッセージをAnthropic形式の本文に変換
+ * ツール呼び出しの引数がJSONとして解析できない場合は、本文として扱う（応答の検証で修正を依頼する）
+ */
+function toContentBlocks(message: NonNullable<ChatCompletionResponse['choices']>[number]['message']): ResponseContentBlock[] {
+  const blocks: ResponseContentBlock[] = [];
+  if (message.content) {
+    blocks.push({ type: 'text', text: message.content });
+  }
+  for (const [index, call] of (message.tool_calls ?? []).entries()) {
+    const args = call.function?.arguments ?? '';
+    try {
+      blocks.push({
+        type: 'tool_use',
+        id: call.id || `call_${index}`,
+        name: call.function?.name ?? '',
+        input: JSON.parse(args)
+      });
+    } catch {
+      blocks.push({ type: 'text', text: args });
+    }
+  }
+  return blocks;
+}
+
+function toStopReason(finishReason: string | null): string | null {
+  switch (finishReason) {
+    case 'length':
+      return 'max_tokens';
+    case 'tool_calls':
+      return 'tool_use';
+    case null:
+      return null;
+    default:
+      return 'end_turn';
+  }
+}
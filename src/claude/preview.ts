@@ -0,0 +1,184 @@
+/**
+ * dry-run: 送信するリクエストの確認とトークン数・料金の見積もり
+ * Claude APIは呼び出さず、文字数からトークン数を概算する（実際の値とは1〜2割程度ずれることがある）
+ */
+
+import { writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import type { PreparedRequest } from './analyzer.js';
+import { MODEL_PRICES, estimateCost, formatCost, emptyUsage, addUsage, type TokenUsage } from './pricing.js';
+
+// 1リクエストあたりの出力トークン数の見込み（知見1〜2件のJSON、知見なしの場合は空配列）
+export const ESTIMATED_OUTPUT_TOKENS_PER_REQUEST = 300;
+
+// ツール呼び出しを強制した場合に自動で追加されるシステムプロンプトのトークン数
+const TOOL_USE_SYSTEM_PROMPT_TOKENS = 313;
+
+// プロンプトキャッシュの対象になる最小のトークン数（Sonnet / Opusの場合、Haikuはより大きい）
+const MIN_CACHEABLE_TOKENS = 1024;
+
+export interface PromptPreview {
+  requests: number;
+  messages: number;            // リクエストの対象メッセージ数
+  estimatedUsage: TokenUsage;  // 入力は文字数からの概算（プロンプトキャッシュが効いた場合）、出力は1リクエストあたりの見込み
+  maxOutputTokens: number;     // max_tokensの合計（出力トークン数の上限）
+  files: string[];             // 書き出したファイル
+}
+
+export interface CostEstimate {
+  model: string;     // 単価表のモデル名（前方一致）
+  batch: number;     // Batch APIの場合の料金（USD）
+  realtime: number;  // Realtime APIの場合の料金（USD）
+}
+
+/**
+ * テキストのトークン数を概算
+ * 日本語などの非ASCII文字は1文字≒1トークン、ASCII文字は4文字≒1トークンとして数える
+ */
+export function estimateTokens(text: string): number {
+  let asciiChars = 0;
+  let otherChars = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 0x80) {
+      asciiChars++;
+    } else {
+      otherChars++;
+    }
+  }
+  return otherChars + Math.ceil(asciiChars / 4);
+}
+
+/**
+ * 1リクエストの入力トークン数を概算（プロンプト本文とツールの定義）
+ */
+export function estimateInputTokens(request: PreparedRequest): number {
+  const { params } = request;
+  const messageTokens = params.messages.reduce((sum, message) => sum + estimateTokens(messageText(message.content)), 0);
+  return messageTokens + estimateCacheablePrefixTokens(request);
+}
+
+/**
+ * リクエスト全体のトークン数を見積もる
+ * ツールの定義とsystemは、同じ内容の2件目以降のリクエストでプロンプトキャッシュから読み込むものとする
+ * （Batch APIではキャッシュが効かないリクエストもあるため、実際の使用量はこれより多くなることがある）
+ */
+export function estimateUsage(requests: PreparedRequest[]): TokenUsage {
+  const cachedPrefixes = new Set<string>();
+  return requests.reduce((usage, request) => {
+    const inputTokens = estimateInputTokens(request);
+    const prefixTokens = isPromptCached(request) ? estimateCacheablePrefixTokens(request) : 0;
+    const requestUsage: TokenUsage = {
+      requests: 1,
+      inputTokens,
+      outputTokens: Math.min(ESTIMATED_OUTPUT_TOKENS_PER_REQUEST, request.params.max_tokens),
+      cacheWriteTokens: 0,
+      cacheReadTokens: 0
+    };
+
+    if (prefixTokens >= MIN_CACHEABLE_TOKENS) {
+      const prefixKey = JSON.stringify([request.params.model, request.params.tools, request.params.system]);
+      requestUsage.inputTokens -= prefixTokens;
+      if (cachedPrefixes.has(prefixKey)) {
+        requestUsage.cacheReadTokens = prefixTokens;
+      } else {
+        requestUsage.cacheWriteTokens = prefixTokens;
+        cachedPrefixes.add(prefixKey);
+      }
+    }
+    return addUsage(usage, requestUsage);
+  }, emptyUsage());
+}
+
+/**
+ * 単価表の全モデルについて、Batch API / Realtime APIの場合の料金を見積もる
+ */
+export function estimateCostByModel(usage: TokenUsage): CostEstimate[] {
+  return MODEL_PRICES.map(([model]) => ({
+    model,
+    batch: estimateCost(model, usage, true) ?? 0,
+    realtime: estimateCost(model, usage, false) ?? 0
+  }));
+}
+
+/**
+ * 送信するリクエストをファイルに書き出す
+ * - {baseFilename}.md: プロンプトを読める形で並べたもの
+ * - {baseFilename}.jsonl: Batch APIに送るリクエスト（custom_id + params）を1行ずつ
+ * @returns 書き出したファイルのパス
+ */
+export async function writePromptPreview(
+  requests: PreparedRequest[],
+  outputDir: string,
+  baseFilename: string
+): Promise<string[]> {
+  await mkdir(outputDir, { recursive: true });
+
+  const markdownPath = join(outputDir, `${baseFilename}.md`);
+  const jsonlPath = join(outputDir, `${baseFilename}.jsonl`);
+
+  let markdown = `# dry-run: 送信するプロンプト（${requests.length}件）\n\n`;
+  for (const request of requests) {
+    const { params } = request;
+    markdown += `## ${request.custom_id}\n\n`;
+    markdown += `- model: ${params.model}\n`;
+    markdown += `- max_tokens: ${params.max_tokens}\n`;
+    markdown += `- 入力トークン（概算）: ${estimateInputTokens(request)}\n`;
+    if (params.tools) {
+      markdown += `- ツール: ${params.tools.map(tool => tool.name).join(', ')}（呼び出しを強制）\n`;
+    }
+    if (params.system) {
+      markdown += `\n### system${isPromptCached(request) ? '（プロンプトキャッシュの対象）' : ''}\n`;
+      markdown += '\n````\n';
+      markdown += systemText(params.system);
+      markdown += '\n````\n';
+      markdown += '\n### messages\n';
+    }
+    markdown += '\n````\n';
+    markdown += params.messages.map(message => messageText(message.content)).join('\n\n');
+    markdown += '\n````\n\n';
+  }
+
+  await writeFile(markdownPath, markdown, 'utf-8');
+  await writeFile(jsonlPath, requests.map(request => JSON.stringify(request)).join('\n') + '\n', 'utf-8');
+  return [markdownPath, jsonlPath];
+}
+
+/**
+ * 料金の見積もりを表示用の行に整形
+ * @param currentModel 設定中のモデル（行末に印を付ける）
+ */
+export function formatCostEstimates(usage: TokenUsage, currentModel: string): string[] {
+  const currentPrefix = MODEL_PRICES.find(([prefix]) => currentModel.startsWith(prefix))?.[0];
+  return estimateCostByModel(usage).map(({ model, batch, realtime }) => {
+    const mark = model === currentPrefix ? '  ← 使用モデル' : '';
+    return `${model.padEnd(20)} Batch: ${formatCost(batch).padStart(9)} / Realtime: ${formatCost(realtime).padStart(9)}${mark}`;
+  });
+}
+
+/**
+ * リクエストごとに変わらない部分（ツールの定義とsystem）のトークン数を概算
+ */
+function estimateCacheablePrefixTokens(request: PreparedRequest): number {
+  const { params } = request;
+  let tokens = params.system ? estimateTokens(systemText(params.system)) : 0;
+  if (params.tools) {
+    tokens += estimateTokens(JSON.stringify(params.tools)) + TOOL_USE_SYSTEM_PROMPT_TOKENS;
+  }
+  return tokens;
+}
+
+function isPromptCached(request: PreparedRequest): boolean {
+  const { system } = request.params;
+  return Array.isArray(system) && system.some(block => block.cache_control);
+}
+
+function systemText(system: NonNullable<PreparedRequest['params']['system']>): string {
+  return typeof system === 'string' ? system : system.map(block => block.text).join('\n');
+}
+
+function messageText(content: PreparedRequest['params']['messages'][number]['content']): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return content.map(block => block.type === 'text' ? block.text : JSON.stringify(block)).join('\n');
+}
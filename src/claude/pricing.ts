@@ -0,0 +1,130 @@
+/**
+ * トークン使用量と料金の計算
+ * 料金はAnthropicの公開価格（USD / 100万トークン）から算出する概算で、請求額と一致するとは限らない
+ */
+
+export interface TokenUsage {
+  requests: number;      // 応答を受け取ったリクエスト数（修正依頼を含む）
+  inputTokens: number;   // キャッシュを使わなかった入力トークン
+  outputTokens: number;
+  cacheWriteTokens: number;  // プロンプトキャッシュに書き込んだ入力トークン
+  cacheReadTokens: number;   // プロンプトキャッシュから読み込んだ入力トークン
+}
+
+export interface ModelPrice {
+  input: number;   // USD / 100万トークン
+  output: number;  // USD / 100万トークン
+}
+
+// Batch APIの割引率（入出力とも50%）
+export const BATCH_DISCOUNT = 0.5;
+
+// プロンプトキャッシュの入力単価に対する倍率（書き込みは5分キャッシュの場合）
+export const CACHE_WRITE_MULTIPLIER = 1.25;
+export const CACHE_READ_MULTIPLIER = 0.1;
+
+/**
+ * モデル別の単価（モデル名の前方一致、日付のサフィックスは問わない）
+ * より具体的な名前を先に並べる
+ */
+export const MODEL_PRICES: [prefix: string, price: ModelPrice][] = [
+  ['claude-opus-4-5', { input: 5, output: 25 }],
+  ['claude-opus-4', { input: 15, output: 75 }],
+  ['claude-sonnet-4', { input: 3, output: 15 }],
+  ['claude-haiku-4-5', { input: 1, output: 5 }],
+  ['claude-3-7-sonnet', { input: 3, output: 15 }],
+  ['claude-3-5-sonnet', { input: 3, output: 15 }],
+  ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+  ['claude-3-opus', { input: 15, output: 75 }],
+  ['claude-3-haiku', { input: 0.25, output: 1.25 }],
+];
+
+export function emptyUsage(): TokenUsage {
+  return { requests: 0, inputTokens: 0, outputTokens: 0, cacheWriteTokens: 0, cacheReadTokens: 0 };
+}
+
+export function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    requests: a.requests + b.requests,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cacheWriteTokens: a.cacheWriteTokens + b.cacheWriteTokens,
+    cacheReadTokens: a.cacheReadTokens + b.cacheReadTokens
+  };
+}
+
+/**
+ * APIの応答のusageを集計用に変換
+ */
+export function fromApiUsage(usage: {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+}): TokenUsage {
+  return {
+    requests: 1,
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    cacheWriteTokens: usage.cache_creation_input_tokens ?? 0,
+    cacheReadTokens: usage.cache_read_input_tokens ?? 0
+  };
+}
+
+/**
+ * モデルの単価を取得（単価表にない場合はnull）
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  const entry = MODEL_PRICES.find(([prefix]) => model.startsWith(prefix));
+  return entry ? entry[1] : null;
+}
+
+/**
+ * 料金を計算（USD、単価表にないモデルはnull）
+ * @param batch Batch APIの場合は割引を適用
+ */
+export function estimateCost(model: string, usage: TokenUsage, batch: boolean): number | null {
+  const price = getModelPrice(model);
+  if (!price) return null;
+
+  const inputCost = usage.inputTokens * price.input
+    + usage.cacheWriteTokens * price.input * CACHE_WRITE_MULTIPLIER
+    + usage.cacheReadTokens * price.input * CACHE_READ_MULTIPLIER;
+  const cost = (inputCost + usage.outputTokens * price.output) / 1_000_000;
+  return batch ? cost * BATCH_DISCOUNT : cost;
+}
+
+/**
+ * 料金の表示（例: $0.0123、料金不明）
+ */
+export function formatCost(cost: number | null): string {
+  return cost === null ? '料金不明' : `$${cost.toFixed(4)}`;
+}
+
+/**
+ * 複数の料金の合計の表示
+ * 単価表にないモデルの分は合計に含められないため明記し、すべて単価表にない場合は「料金不明」とする
+ */
+export function formatTotalCost(costs: (number | null)[]): string {
+  const priced = costs.filter((cost): cost is number => cost !== null);
+  if (costs.length > 0 && priced.length === 0) {
+    return formatCost(null);
+  }
+  const total = formatCost(priced.reduce((sum, cost) => sum + cost, 0));
+  return priced.length < costs.length ? `${total}（料金不明のモデルの分を除く）` : total;
+}
+
+/**
+ * トークン数の表示（例: 入力 12,345 / 出力 2,345 tokens（キャッシュ 書き込み 3,400 / 読み込み 81,600））
+ */
+export function formatUsage(usage: TokenUsage): string {
+  const text = `入力 ${formatTokens(usage.inputTokens)} / 出力 ${formatTokens(usage.outputTokens)} tokens`;
+  if (usage.cacheWriteTokens === 0 && usage.cacheReadTokens === 0) {
+    return text;
+  }
+  return `${text}（キャッシュ 書き込み ${formatTokens(usage.cacheWriteTokens)} / 読み込み ${formatTokens(usage.cacheReadTokens)}）`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens.toLocaleString('en-US');
+}
@@ -0,0 +1,87 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { fromApiUsage, type TokenUsage } from './pricing.js';
+
+/**
+ * 分析に使うLLMのAPI
+ * - anthropic: Claude API（Realtime API・Batch API、デフォルト）
+ * - openai: OpenAI互換のChat Completions API（llama.cpp・Ollamaなどのローカルサーバーを含む）
+ */
+export type ProviderName = 'anthropic' | 'openai';
+
+export function isProviderName(value: string): value is ProviderName {
+  return ['anthropic', 'openai'].includes(value);
+}
+
+/**
+ * APIの種別（batch: Batch API / realtime: Realtime API）
+ */
+export function isApiMode(value: string): value is 'batch' | 'realtime' {
+  return ['batch', 'realtime'].includes(value);
+}
+
+/**
+ * 1回分のリクエスト（Anthropic Messages APIの形式、プロバイダーごとに変換して送信する）
+ */
+export type MessageRequest = Anthropic.Beta.Messages.MessageCreateParamsNonStreaming;
+
+/**
+ * 応答の本文（text / tool_use）
+ */
+export type ResponseContentBlock = Anthropic.ContentBlock | Anthropic.Beta.Messages.BetaContentBlock;
+
+export interface ProviderResponse {
+  content: ResponseContentBlock[];
+  stop_reason: string | null;  // Anthropicの値（end_turn / max_tokens / tool_use）に揃える
+  usage: TokenUsage;
+}
+
+/**
+ * Batch API（送信・状態の確認・結果の取得）
+ */
+export interface BatchApi {
+  create(requests: { custom_id: string; params: MessageRequest }[]): Promise<Anthropic.Beta.Messages.BetaMessageBatch>;
+  retrieve(batchId: string): Promise<Anthropic.Beta.Messages.BetaMessageBatch>;
+  results(batchId: string): Promise<AsyncIterable<Anthropic.Beta.Messages.BetaMessageBatchIndividualResponse>>;
+}
+
+/**
+ * 分析のリクエストを送るプロバイダー
+ * プロンプトの作成・応答の検証・修正依頼はClaudeAnalyzerが共通で行い、プロバイダーは送信と応答の変換のみを担う
+ */
+export interface AnalysisProvider {
+  readonly name: ProviderName;
+  readonly label: string;               // ログ表示用
+  readonly supportsPromptCache: boolean;
+  readonly batch: BatchApi | null;      // Batch APIに対応していない場合はnull
+
+  createMessage(request: MessageRequest): Promise<ProviderResponse>;
+}
+
+/**
+ * Claude API
+ */
+export class AnthropicProvider implements AnalysisProvider {
+  readonly name = 'anthropic';
+  readonly label = 'Claude API';
+  readonly supportsPromptCache = true;
+  readonly batch: BatchApi;
+  private client: Anthropic;
+
+  constructor(apiKey: string) {
+    this.client = new Anthropic({ apiKey });
+    this.batch = {
+      create: requests => this.client.beta.messages.batches.create({ requests }),
+      retrieve: batchId => this.client.beta.messages.batches.retrieve(batchId),
+      results: batchId => this.client.beta.messages.batches.results(batchId)
+    };
+  }
+
+  async createMessage(request: MessageRequest): Promise<ProviderResponse> {
+    const response = await this.client.beta.messages.create(request);
+    return {
+      content: response.content,
+      stop_reason: response.stop_reason,
+      usage: fromApiUsage(response.usage)
+    };
+  }
+}
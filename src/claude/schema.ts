@@ -0,0 +1,179 @@
+/**
+ * 分析結果（知見）の出力スキーマと検証
+ * Claudeの応答はtool use（JSONスキーマ付きのツール呼び出し）で受け取り、
+ * テキストで返された場合もコードブロックを除去してから同じスキーマで検証する
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+
+/**
+ * 応答の受け取り方
+ * - tool: ツール呼び出しの入力（JSONスキーマで構造を指定）として受け取る
+ * - text: 本文のJSONを抽出してパースする（プロンプトの【出力形式】に従う）
+ */
+export type OutputMode = 'tool' | 'text';
+
+export const VERSATILITY_LEVELS = ['high', 'medium', 'low', 'exclude'] as const;
+
+export const KNOWLEDGE_TOOL_NAME = 'record_knowledge';
+
+// タイトルはプロンプトで20文字以内と指示しているが、多少の超過は許容する
+const TITLE_MAX_LENGTH = 60;
+
+/**
+ * 検証済みの知見（message_id・日時などのメタデータは付与前）
+ */
+export interface KnowledgeItem {
+  category: string;
+  versatility: typeof VERSATILITY_LEVELS[number];
+  title: string;
+  tags: string[];
+  formatted_content: string;
+  source_message_ids?: string[];
+}
+
+export interface KnowledgeValidationResult {
+  items: KnowledgeItem[];
+  errors: string[];  // 不正な項目の内容（修正依頼のプロンプトにそのまま渡す）
+}
+
+export function isOutputMode(value: string): value is OutputMode {
+  return ['tool', 'text'].includes(value);
+}
+
+/**
+ * 知見を記録するツールの定義
+ * カテゴリはプロンプトテンプレートごとに定義が異なるため、列挙せず文字列とする
+ * @param withSourceIds 会話単位の分析（source_message_idsを出力させる）
+ */
+export function buildKnowledgeTool(withSourceIds: boolean): Anthropic.Tool {
+  const itemProperties: Record<string, unknown> = {
+    category: { type: 'string', description: 'プロンプトの定義から選んだカテゴリ名' },
+    versatility: { type: 'string', enum: [...VERSATILITY_LEVELS] },
+    title: { type: 'string', description: '20文字以内のタイトル' },
+    tags: { type: 'array', items: { type: 'string' }, description: '3-5個のタグ' },
+    formatted_content: { type: 'string', description: '整形後の内容' }
+  };
+  const required = ['category', 'versatility', 'title', 'tags', 'formatted_content'];
+
+  if (withSourceIds) {
+    itemProperties.source_message_ids = {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'その知見に寄与したメッセージのmessage_id'
+    };
+    required.push('source_message_ids');
+  }
+
+  return {
+    name: KNOWLEDGE_TOOL_NAME,
+    description: '分析した知見を記録します。【出力形式】のJSONの代わりに、このツールで結果を返してください。知見がない場合はitemsを空の配列にしてください。',
+    input_schema: {
+      type: 'object',
+      properties: {
+        items: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: itemProperties,
+            required
+          }
+        }
+      },
+      required: ['items']
+    }
+  };
+}
+
+/**
+ * 応答テキストからJSONを抽出してパース（複数パターンに対応）
+ * パースできない場合はJSON.parseの例外をそのまま投げる
+ */
+export function parseJsonText(text: string): unknown {
+  let jsonText = text.trim();
+
+  // パターン1: ```json ... ``` 形式
+  let jsonMatch = jsonText.match(/```json\s*([\s\S]*?)```/);
+  if (jsonMatch) {
+    jsonText = jsonMatch[1].trim();
+  } else {
+    // パターン2: ``` ... ``` 形式（json指定なし）
+    jsonMatch = jsonText.match(/```\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+      jsonText = jsonMatch[1].trim();
+    }
+  }
+
+  // JSON文字列がまだ```で始まっている場合は除去（念のため）
+  jsonText = jsonText.replace(/^```(json)?/gm, '').replace(/```$/gm, '').trim();
+
+  return JSON.parse(jsonText);
+}
+
+/**
+ * 知見の配列をスキーマで検証
+ * 単一のオブジェクト、配列、ツールの入力（{ items: [...] }）のいずれも受け付ける
+ * 1件でも不正な項目があればerrorsに記録し、正しい項目だけをitemsに返す
+ */
+export function validateKnowledgeItems(data: unknown, withSourceIds: boolean): KnowledgeValidationResult {
+  const list: unknown[] = Array.isArray(data)
+    ? data
+    : isRecord(data) && Array.isArray(data.items) ? data.items : [data];
+
+  const items: KnowledgeItem[] = [];
+  const errors: string[] = [];
+
+  list.forEach((value, index) => {
+    const itemErrors = validateKnowledgeItem(value, withSourceIds);
+    if (itemErrors.length > 0) {
+      errors.push(...itemErrors.map(error => `items[${index}]: ${error}`));
+    } else {
+      items.push(value as KnowledgeItem);
+    }
+  });
+
+  return { items, errors };
+}
+
+function validateKnowledgeItem(value: unknown, withSourceIds: boolean): string[] {
+  if (!isRecord(value)) {
+    return ['オブジェクトではありません'];
+  }
+
+  const errors: string[] = [];
+  for (const field of ['category', 'title', 'formatted_content'] as const) {
+    const fieldValue = value[field];
+    if (typeof fieldValue !== 'string' || fieldValue.trim() === '') {
+      errors.push(`${field} は空でない文字列にしてください`);
+    }
+  }
+
+  if (typeof value.title === 'string' && value.title.length > TITLE_MAX_LENGTH) {
+    errors.push(`title が長すぎます（${value.title.length}文字）。20文字以内にしてください`);
+  }
+
+  if (!(VERSATILITY_LEVELS as readonly unknown[]).includes(value.versatility)) {
+    errors.push(`versatility は ${VERSATILITY_LEVELS.join(' / ')} のいずれかにしてください（値: ${JSON.stringify(value.versatility)}）`);
+  }
+
+  if (!isStringArray(value.tags)) {
+    errors.push('tags は文字列の配列にしてください');
+  }
+
+  if (withSourceIds && value.source_message_ids !== undefined && !isStringArray(value.source_message_ids)) {
+    errors.push('source_message_ids はmessage_idの文字列の配列にしてください');
+  }
+
+  return errors;
+}
+
+/**
+ * 配列以外のオブジェクトか
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string');
+}
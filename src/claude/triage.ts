@@ -0,0 +1,307 @@
+/**
+ * トリアージ（本分析の前の一次判定）
+ * 安価なモデルに「再利用できる知見が含まれるか」だけを判定させ、含まれるメッセージのみを本分析に送る
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import type { ChatworkMessage } from '../chatwork/client.js';
+import type { ResolvedRole } from '../team/profiles.js';
+import type { AnalysisProvider, BatchApi, MessageRequest, ResponseContentBlock } from './provider.js';
+import { parseJsonText, type OutputMode } from './schema.js';
+import { emptyUsage, addUsage, fromApiUsage, formatUsage, type TokenUsage } from './pricing.js';
+import { toPlainText } from '../chatwork/markup.js';
+import { Logger } from '../utils/logger.js';
+
+export interface TriageConfig {
+  model: string;
+  apiMode: 'batch' | 'realtime';
+  outputMode: OutputMode;
+  batchMaxWaitMinutes: number;  // Batchの完了を待つ上限（超えた場合は次回の実行で回収する）
+}
+
+export const DEFAULT_TRIAGE_MODEL = 'claude-haiku-4-5-20251001';
+
+export const DEFAULT_TRIAGE_BATCH_MAX_WAIT_MINUTES = 60;
+
+export const TRIAGE_TOOL_NAME = 'record_triage';
+
+// 知見なしと判定したメッセージの分析状態に記録する除外理由
+export const TRIAGE_EXCLUDED_REASON = 'トリアージで知見なしと判定';
+
+export interface TriageJudgement {
+  has_knowledge: boolean;
+  reason: string;
+}
+
+/**
+ * 送信済みのトリアージのBatch（完了を待てなかった場合に記録し、次回の実行で回収する）
+ */
+export interface TriageBatchJob {
+  batchId: string;
+  model: string;
+  createdAt: string;
+  messageIds: string[];
+  updateTimes: Record<string, number>;  // message_id → 送信時点のメッセージの更新日時（判定結果の保存に使用）
+}
+
+export interface TriageOutcome {
+  judgements: Record<string, TriageJudgement>;  // message_id → 判定
+  failedIds: string[];  // 判定できなかったメッセージ（本分析に送る）
+  pendingJob: TriageBatchJob | null;  // 待機の上限までに完了しなかったBatch（対象は今回判定しない）
+  usage: TokenUsage;
+}
+
+// 判定と短い理由のみを返すため、出力は少なくてよい
+const TRIAGE_MAX_TOKENS = 256;
+
+const CONCURRENCY = 5;  // Realtime APIの並列実行数
+const POLLING_INTERVAL_MS = 10000;
+
+const TRIAGE_SYSTEM_PROMPT = `あなたはWeb制作チームのチャット履歴から形式知を抽出する前の、一次判定の担当者です。
+ユーザーメッセージの発言に、他の案件でも再利用できる知見が含まれるかだけを判定してください。
+
+知見が含まれる（true）:
+- 技術的なノウハウ、トラブルの原因と対処、判断の基準や理由、制作方針の考え方
+- 質問・相談でも、判断の観点や前提が読み取れるもの
+- 迷う場合
+
+知見が含まれない（false）:
+- 挨拶・お礼・了解・確認・日程調整のみ
+- 具体的な数値・色・文言など、案件固有の指示のみ
+- 理由や考え方を含まない作業報告のみ`;
+
+const TRIAGE_TEXT_OUTPUT_INSTRUCTION = `
+以下のJSON形式のみで返してください。
+{"has_knowledge": true, "reason": "判定の理由（30文字以内）"}`;
+
+/**
+ * トリアージの実行（判定結果のキャッシュは呼び出し側で管理する）
+ * 判定できなかったメッセージは、知見を取りこぼさないよう本分析に送る
+ */
+export class MessageTriage {
+  private provider: AnalysisProvider;
+  private config: TriageConfig;
+  private logger: Logger;
+
+  constructor(provider: AnalysisProvider, config: TriageConfig) {
+    this.provider = provider;
+    this.config = config;
+    this.logger = new Logger('Triage');
+  }
+
+  getModel(): string {
+    return this.config.model;
+  }
+
+  /**
+   * @param onSubmitted Batchを送信した直後に呼ぶ（プロセスが終了しても回収できるよう記録する）
+   */
+  async triage(
+    messages: ChatworkMessage[],
+    roleResolver?: (accountId: number) => ResolvedRole,
+    onSubmitted?: (job: TriageBatchJob) => Promise<void>
+  ): Promise<TriageOutcome> {
+    const requests = messages.map(message => ({
+      custom_id: `tri_${message.message_id}`,
+      params: this.createParams(message, roleResolver)
+    }));
+
+    this.logger.info(`トリアージ開始: ${messages.length}件（${this.config.model}、${this.config.apiMode === 'batch' ? 'Batch API' : 'Realtime API'}）`);
+    const updateTimes = Object.fromEntries(messages.map(message => [message.message_id, message.update_time]));
+    const outcome = this.config.apiMode === 'batch'
+      ? await this.runBatch(requests, updateTimes, onSubmitted)
+      : await this.runRealtime(requests);
+
+    this.logOutcome(outcome);
+    return outcome;
+  }
+
+  /**
+   * 記録済みのBatchの完了を待ち、判定結果を回収
+   */
+  async collectBatch(job: TriageBatchJob): Promise<TriageOutcome> {
+    this.logger.info(`未回収のトリアージのBatch: ${job.batchId}（${job.messageIds.length}件、送信: ${new Date(job.createdAt).toLocaleString('ja-JP')}）`);
+    const outcome = await this.waitAndCollect(job);
+    this.logOutcome(outcome);
+    return outcome;
+  }
+
+  private logOutcome(outcome: TriageOutcome): void {
+    if (outcome.pendingJob) {
+      this.logger.warn(`Batch ${outcome.pendingJob.batchId} が${this.config.batchMaxWaitMinutes}分以内に完了しませんでした。対象の${outcome.pendingJob.messageIds.length}件は次回の実行で回収します`);
+      return;
+    }
+    if (outcome.failedIds.length > 0) {
+      this.logger.warn(`判定できなかった${outcome.failedIds.length}件は本分析に送ります`);
+    }
+    this.logger.info(`トークン使用量: ${formatUsage(outcome.usage)}（${outcome.usage.requests}リクエスト）`);
+  }
+
+  private createParams(message: ChatworkMessage, roleResolver?: (accountId: number) => ResolvedRole): MessageRequest {
+    const roleLabel = roleResolver?.(message.account.account_id).roleLabel ?? 'Member';
+    const plainBody = toPlainText(message.body);
+    const body = message.source_kind === 'task' ? `【タスク（依頼内容）】\n${plainBody}` : plainBody;
+
+    const params: MessageRequest = {
+      model: this.config.model,
+      max_tokens: TRIAGE_MAX_TOKENS,
+      system: this.config.outputMode === 'tool' ? TRIAGE_SYSTEM_PROMPT : TRIAGE_SYSTEM_PROMPT + TRIAGE_TEXT_OUTPUT_INSTRUCTION,
+      messages: [{ role: 'user', content: `発言者ロール: ${roleLabel}\n内容: ${body}` }]
+    };
+    if (this.config.outputMode === 'text') {
+      return params;
+    }
+    return {
+      ...params,
+      tools: [buildTriageTool()],
+      tool_choice: { type: 'tool', name: TRIAGE_TOOL_NAME }
+    };
+  }
+
+  private async runRealtime(requests: { custom_id: string; params: MessageRequest }[]): Promise<TriageOutcome> {
+    const outcome: TriageOutcome = { judgements: {}, failedIds: [], pendingJob: null, usage: emptyUsage() };
+
+    for (let i = 0; i < requests.length; i += CONCURRENCY) {
+      const chunk = requests.slice(i, i + CONCURRENCY);
+      await Promise.all(chunk.map(async request => {
+        const messageId = toMessageId(request.custom_id);
+        try {
+          const response = await this.provider.createMessage(request.params);
+          outcome.usage = addUsage(outcome.usage, response.usage);
+          this.recordJudgement(outcome, messageId, response.content);
+        } catch (e) {
+          const errorMsg = e instanceof Error ? e.message : String(e);
+          this.logger.error(`API error for message ${messageId}: ${errorMsg}`);
+          outcome.failedIds.push(messageId);
+        }
+      }));
+      this.logger.info(`進捗: ${Math.min(i + CONCURRENCY, requests.length)}/${requests.length}件`);
+    }
+    return outcome;
+  }
+
+  /**
+   * Batch APIで判定（送信を記録してから、batchMaxWaitMinutesまで完了を待つ）
+   */
+  private async runBatch(
+    requests: { custom_id: string; params: MessageRequest }[],
+    updateTimes: Record<string, number>,
+    onSubmitted?: (job: TriageBatchJob) => Promise<void>
+  ): Promise<TriageOutcome> {
+    const batch = await this.getBatchApi().create(requests);
+    const job: TriageBatchJob = {
+      batchId: batch.id,
+      model: this.config.model,
+      createdAt: new Date().toISOString(),
+      messageIds: requests.map(request => toMessageId(request.custom_id)),
+      updateTimes
+    };
+    this.logger.info(`Batch作成完了: ${batch.id}（${requests.length}件）`);
+    await onSubmitted?.(job);
+
+    return this.waitAndCollect(job);
+  }
+
+  /**
+   * Batchの完了を待って結果を読み込む（待機の上限を超えた場合はpendingJobを返す）
+   */
+  private async waitAndCollect(job: TriageBatchJob): Promise<TriageOutcome> {
+    const batchApi = this.getBatchApi();
+    const outcome: TriageOutcome = { judgements: {}, failedIds: [], pendingJob: null, usage: emptyUsage() };
+
+    const startTime = Date.now();
+    const maxWaitMs = this.config.batchMaxWaitMinutes * 60000;
+    let batch = await batchApi.retrieve(job.batchId);
+    while (batch.processing_status !== 'ended') {
+      if (Date.now() - startTime >= maxWaitMs) {
+        return { ...outcome, pendingJob: job };
+      }
+      await this.sleep(POLLING_INTERVAL_MS);
+      batch = await batchApi.retrieve(job.batchId);
+      const elapsedMinutes = Math.floor((Date.now() - startTime) / 60000);
+      this.logger.debug(`ステータス: ${batch.processing_status}（経過: ${elapsedMinutes}分）`);
+    }
+    this.logger.info(`Batch完了: 成功 ${batch.request_counts.succeeded}, 失敗 ${batch.request_counts.errored}`);
+
+    const pending = new Set(job.messageIds);
+    for await (const result of await batchApi.results(job.batchId)) {
+      const messageId = toMessageId(result.custom_id);
+      if (!pending.delete(messageId)) continue;
+
+      if (result.result.type === 'succeeded') {
+        outcome.usage = addUsage(outcome.usage, fromApiUsage(result.result.message.usage));
+        this.recordJudgement(outcome, messageId, result.result.message.content);
+      } else {
+        this.logger.error(`Batchのリクエストが ${result.result.type} で終了しました: message ${messageId}`);
+        outcome.failedIds.push(messageId);
+      }
+    }
+    outcome.failedIds.push(...pending);
+    return outcome;
+  }
+
+  private getBatchApi(): BatchApi {
+    if (!this.provider.batch) {
+      throw new Error(`${this.provider.label} はBatch APIに対応していません（TRIAGE_API_MODE=realtime を指定してください）`);
+    }
+    return this.provider.batch;
+  }
+
+  private recordJudgement(outcome: TriageOutcome, messageId: string, content: ResponseContentBlock[]): void {
+    const judgement = parseJudgement(content);
+    if (judgement) {
+      outcome.judgements[messageId] = judgement;
+    } else {
+      this.logger.warn(`判定結果を解析できません: message ${messageId}`);
+      outcome.failedIds.push(messageId);
+    }
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+function toMessageId(customId: string): string {
+  return customId.replace(/^tri_/, '');
+}
+
+/**
+ * 判定結果を記録するツールの定義
+ */
+function buildTriageTool(): Anthropic.Tool {
+  return {
+    name: TRIAGE_TOOL_NAME,
+    description: '発言に再利用できる知見が含まれるかの判定を記録します。',
+    input_schema: {
+      type: 'object',
+      properties: {
+        has_knowledge: { type: 'boolean', description: '再利用できる知見が含まれる（迷う場合はtrue）' },
+        reason: { type: 'string', description: '判定の理由（30文字以内）' }
+      },
+      required: ['has_knowledge', 'reason']
+    }
+  };
+}
+
+/**
+ * 応答から判定結果を取り出す（ツール呼び出し、または本文のJSON）
+ */
+function parseJudgement(content: ResponseContentBlock[]): TriageJudgement | null {
+  const toolUse = content.find(block => block.type === 'tool_use' && block.name === TRIAGE_TOOL_NAME);
+  let data: unknown;
+  if (toolUse && toolUse.type === 'tool_use') {
+    data = toolUse.input;
+  } else {
+    try {
+      data = parseJsonText(content.map(block => block.type === 'text' ? block.text : '').join(''));
+    } catch {
+      return null;
+    }
+  }
+
+  if (typeof data !== 'object' || data === null) return null;
+  const { has_knowledge, reason } = data as Record<string, unknown>;
+  if (typeof has_knowledge !== 'boolean') return null;
+  return { has_knowledge, reason: typeof reason === 'string' ? reason : '' };
+}
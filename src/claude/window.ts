@@ -0,0 +1,102 @@
+/**
+ * 会話ウィンドウ（連続する一連のやりとり）の組み立て
+ * 1つの知見は複数の発言（質問 → 回答 → 補足など）にまたがることが多いため、
+ * メッセージ単位ではなく会話のまとまり単位でClaudeに分析させる
+ */
+
+import type { ChatworkMessage } from '../chatwork/client.js';
+import type { ThreadLink } from '../chatwork/thread.js';
+
+/**
+ * 分析の単位
+ * - message: メッセージ1件ごと（従来動作）
+ * - window: 会話ウィンドウごと
+ */
+export type AnalysisUnit = 'message' | 'window';
+
+export interface WindowConfig {
+  gapMinutes: number;   // 直前の発言からこの時間以内なら同じ会話とみなす
+  maxMessages: number;  // 1ウィンドウの最大メッセージ数
+}
+
+export const DEFAULT_WINDOW_CONFIG: WindowConfig = {
+  gapMinutes: 30,
+  maxMessages: 10,
+};
+
+export interface ConversationWindow {
+  id: string;                  // 最初のメッセージのIDから生成（win_{message_id}）
+  messages: ChatworkMessage[];  // 時系列（古い順）
+}
+
+export function isAnalysisUnit(value: string): value is AnalysisUnit {
+  return ['message', 'window'].includes(value);
+}
+
+/**
+ * メッセージを会話ウィンドウに分割
+ * - 返信先・引用元が既存のウィンドウにあれば、そのウィンドウに入れる（スレッドでまとめる）
+ * - それ以外は直前のウィンドウの最後の発言からgapMinutes以内なら同じウィンドウに入れる（時間でまとめる）
+ * - どちらもmaxMessagesに達したウィンドウには追加しない
+ * @param messages 分析対象のメッセージ
+ * @param threadLinks message_id → スレッド情報
+ */
+export function buildConversationWindows(
+  messages: ChatworkMessage[],
+  threadLinks: Record<string, ThreadLink>,
+  config: Partial<WindowConfig> = {}
+): ConversationWindow[] {
+  const cfg = { ...DEFAULT_WINDOW_CONFIG, ...config };
+  const gapSeconds = cfg.gapMinutes * 60;
+
+  const chronological = [...messages].sort((a, b) => a.send_time - b.send_time);
+  const windows: ChatworkMessage[][] = [];
+  const windowIndexById = new Map<string, number>();
+
+  for (const message of chronological) {
+    let target = findThreadWindow(message, threadLinks, windowIndexById);
+    if (target !== null && windows[target].length >= cfg.maxMessages) {
+      target = null;
+    }
+
+    if (target === null && windows.length > 0) {
+      const last = windows[windows.length - 1];
+      const lastMessage = last[last.length - 1];
+      if (message.send_time - lastMessage.send_time <= gapSeconds && last.length < cfg.maxMessages) {
+        target = windows.length - 1;
+      }
+    }
+
+    if (target === null) {
+      windows.push([]);
+      target = windows.length - 1;
+    }
+    windows[target].push(message);
+    windowIndexById.set(message.message_id, target);
+  }
+
+  return windows.map(windowMessages => ({
+    id: `win_${windowMessages[0].message_id}`,
+    messages: windowMessages
+  }));
+}
+
+/**
+ * 返信先・引用元を含むウィンドウを探す
+ */
+function findThreadWindow(
+  message: ChatworkMessage,
+  threadLinks: Record<string, ThreadLink>,
+  windowIndexById: Map<string, number>
+): number | null {
+  const link = threadLinks[message.message_id];
+  if (!link) return null;
+
+  const relatedIds = [link.parent_message_id, ...link.quoted_message_ids];
+  for (const relatedId of relatedIds) {
+    if (!relatedId) continue;
+    const index = windowIndexById.get(relatedId);
+    if (index !== undefined) return index;
+  }
+  return null;
+}
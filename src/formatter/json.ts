@@ -1,14 +1,28 @@
-import type { AnalyzedMessage } from '../claude/analyzer.js';
+import { getMentionedMessageIds, getMentionSourceMessageIds, type AnalyzedMessage } from '../claude/analyzer.js';
+import { getMentionCount } from '../claude/consolidate.js';
 import { writeFile, mkdir } from 'fs/promises';
 import { dirname } from 'path';
-import { SpeakerMapManager } from '../cache/speakerMap.js';
+import { SpeakerMapManager, resolveSpeakers, type SpeakerInfo, type SpeakerMapCache } from '../cache/speakerMap.js';
 import { Logger } from '../utils/logger.js';
+import type { GapReason, HistoryGap } from '../cache/gaps.js';
 
 export interface FormatOptions {
   roomName?: string;
   roomId?: string;
   model?: string;
   anonymize?: boolean;
+  gaps?: HistoryGap[];  // メッセージを取得できていない可能性がある期間
+}
+
+/**
+ * 出力に含まれていない可能性がある期間（日時はISO 8601、fromのnullは履歴の先頭から）
+ */
+interface IncompletePeriod {
+  from: string | null;
+  to: string;
+  reason: GapReason;
+  detected_at: string;
+  run_id: string;
 }
 
 interface KnowledgeExport {
@@ -19,9 +33,39 @@ interface KnowledgeExport {
     id: string;
   };
   total_items: number;
+  incomplete_periods: IncompletePeriod[];
+  items: (AnalyzedMessage & { speaker: string; mention_count: number })[];
+}
+
+/**
+ * 統合出力用のルーム単位の知見
+ */
+export interface RoomKnowledge {
+  roomId: string;
+  roomName?: string;
+  model?: string;
+  gaps?: HistoryGap[];
   items: AnalyzedMessage[];
 }
 
+/**
+ * 統合出力の知見（ルームをまたいで統合した知見は、言及ごとにroom_idを持つ）
+ */
+export type CombinedKnowledgeItem = AnalyzedMessage & { room_id: string };
+
+interface CombinedKnowledgeExport {
+  export_date: string;
+  total_items: number;
+  rooms: {
+    id: string;
+    name?: string;  // 匿名化時は省略
+    model?: string;
+    total_items: number;
+    incomplete_periods: IncompletePeriod[];
+  }[];
+  items: (AnalyzedMessage & { speaker: string; mention_count: number; room_id: string })[];
+}
+
 export class JSONFormatter {
   private logger: Logger;
 
@@ -50,10 +94,16 @@ export class JSONFormatter {
       items = await this.applySpeakerNames(messages, speakerMapManager, roomId);
     }
 
+    // 外部用は添付ファイル名を除去
+    if (options.anonymize) {
+      items = items.map(item => this.stripFileNames(item));
+    }
+
     const exportData: KnowledgeExport = {
       export_date: new Date().toISOString(),
       total_items: items.length,
-      items
+      incomplete_periods: this.toIncompletePeriods(options.gaps),
+      items: items.map(item => ({ ...item, mention_count: getMentionCount(item) }))
     };
 
     // モデル情報を追加
@@ -83,6 +133,113 @@ export class JSONFormatter {
     this.logger.info(`出力完了: ${outputPath}`);
   }
 
+  /**
+   * 複数ルームの分析結果を1つのJSONに統合して出力
+   * 匿名化時の「発言者N」はルームをまたいでaccount_id単位で一貫させる
+   * @param items 出力する知見（ルームをまたいだ重複の統合は呼び出し側で行う）
+   */
+  async formatCombined(
+    rooms: RoomKnowledge[],
+    items: CombinedKnowledgeItem[],
+    outputPath: string,
+    options: Pick<FormatOptions, 'anonymize'> = {},
+    speakerMapManager: SpeakerMapManager
+  ): Promise<void> {
+    // 全ルームのSpeakerMapを読み込み
+    const speakerMaps = new Map<string, SpeakerMapCache>();
+    for (const room of rooms) {
+      const speakerMap = await speakerMapManager.load(room.roomId);
+      if (!speakerMap) {
+        throw new Error(`[Formatter] SpeakerMapが見つかりません: speakers_${room.roomId}.json`);
+      }
+      speakerMaps.set(room.roomId, speakerMap);
+    }
+
+    // ルーム横断でaccount_id → 匿名IDのマッピングを作成
+    const allAccountIds = new Set<number>();
+    for (const item of items) {
+      for (const speakerInfo of this.resolveCombinedSpeakers(item, speakerMaps)) {
+        allAccountIds.add(speakerInfo.account_id);
+      }
+    }
+    const accountIdToAnonymousId = new Map<number, string>();
+    Array.from(allAccountIds).sort((a, b) => a - b).forEach((accountId, index) => {
+      accountIdToAnonymousId.set(accountId, `発言者${index + 1}`);
+    });
+
+    const exportItems: CombinedKnowledgeExport['items'] = items.map(item => {
+      const speakerInfos = this.resolveCombinedSpeakers(item, speakerMaps);
+      let speaker = '不明';
+      if (speakerInfos.length === 0) {
+        this.logger.warn(`message_id ${item.message_id} のSpeaker情報が見つかりません。デフォルト値を使用します。`);
+      } else {
+        speaker = this.formatSpeakers(speakerInfos, info => options.anonymize
+          ? accountIdToAnonymousId.get(info.account_id)!
+          : info.speaker_name);
+      }
+      // 統合していない知見はルーム別の出力と同じく mentions を出力しない
+      const { mentions, ...rest } = options.anonymize ? this.stripFileNames(item) : item;
+      return {
+        ...rest,
+        ...(mentions && mentions.length > 1 && { mentions }),
+        speaker,
+        mention_count: getMentionCount(item)
+      };
+    });
+
+    const exportData: CombinedKnowledgeExport = {
+      export_date: new Date().toISOString(),
+      total_items: exportItems.length,
+      rooms: rooms.map(room => ({
+        id: room.roomId,
+        // 匿名化時はルーム名を出力しない
+        ...(options.anonymize ? {} : { name: room.roomName }),
+        ...(room.model ? { model: room.model } : {}),
+        total_items: room.items.length,
+        incomplete_periods: this.toIncompletePeriods(room.gaps)
+      })),
+      items: exportItems
+    };
+
+    await mkdir(dirname(outputPath), { recursive: true });
+    await writeFile(outputPath, JSON.stringify(exportData, null, 2), 'utf-8');
+    this.logger.info(`統合出力完了: ${outputPath} (${rooms.length}ルーム, ${exportItems.length}件)`);
+  }
+
+  /**
+   * 統合出力の知見の発言者（ルームをまたいで統合した知見は、言及ごとにそのルームのSpeakerMapから解決）
+   */
+  private resolveCombinedSpeakers(item: CombinedKnowledgeItem, speakerMaps: Map<string, SpeakerMapCache>): SpeakerInfo[] {
+    if (!item.mentions || item.mentions.length === 0) {
+      return resolveSpeakers(speakerMaps.get(item.room_id)!, getMentionedMessageIds(item));
+    }
+
+    const speakers = new Map<number, SpeakerInfo>();
+    for (const mention of item.mentions) {
+      const speakerMap = speakerMaps.get(mention.room_id ?? item.room_id);
+      if (!speakerMap) continue;
+      for (const speakerInfo of resolveSpeakers(speakerMap, getMentionSourceMessageIds(mention))) {
+        if (!speakers.has(speakerInfo.account_id)) {
+          speakers.set(speakerInfo.account_id, speakerInfo);
+        }
+      }
+    }
+    return Array.from(speakers.values());
+  }
+
+  /**
+   * 欠落期間を出力用の形式に変換
+   */
+  private toIncompletePeriods(gaps: HistoryGap[] = []): IncompletePeriod[] {
+    return gaps.map(gap => ({
+      from: gap.from === null ? null : new Date(gap.from * 1000).toISOString(),
+      to: new Date(gap.to * 1000).toISOString(),
+      reason: gap.reason,
+      detected_at: gap.detected_at,
+      run_id: gap.run_id
+    }));
+  }
+
   /**
    * message_idベースでSpeakerMapから実名を取得
    */
@@ -97,14 +254,12 @@ export class JSONFormatter {
     }
 
     return messages.map(item => {
-      const speakerInfo = speakerMap.speakers[item.message_id];
-      if (!speakerInfo) {
+      const speakerInfos = resolveSpeakers(speakerMap, getMentionedMessageIds(item));
+      if (speakerInfos.length === 0) {
         this.logger.warn(`message_id ${item.message_id} のSpeaker情報が見つかりません。デフォルト値を使用します。`);
         return { ...item, speaker: '不明' };
       }
-      // ロール情報があれば表示
-      const roleLabel = this.getRoleLabel(speakerInfo.speaker_role);
-      const speaker = roleLabel ? `${speakerInfo.speaker_name} (${roleLabel})` : speakerInfo.speaker_name;
+      const speaker = this.formatSpeakers(speakerInfos, info => info.speaker_name);
       return { ...item, speaker };
     });
   }
@@ -130,8 +285,7 @@ export class JSONFormatter {
     // 一貫性のため、account_idでソート
     const allAccountIds = new Set<number>();
     for (const msg of messages) {
-      const speakerInfo = speakerMap.speakers[msg.message_id];
-      if (speakerInfo) {
+      for (const speakerInfo of resolveSpeakers(speakerMap, getMentionedMessageIds(msg))) {
         allAccountIds.add(speakerInfo.account_id);
       }
     }
@@ -143,18 +297,14 @@ export class JSONFormatter {
     }
 
     return messages.map(item => {
-      const speakerInfo = speakerMap.speakers[item.message_id];
-      if (!speakerInfo) {
+      const speakerInfos = resolveSpeakers(speakerMap, getMentionedMessageIds(item));
+      if (speakerInfos.length === 0) {
         this.logger.warn(`message_id ${item.message_id} のSpeaker情報が見つかりません。デフォルト値を使用します。`);
         return { ...item, speaker: '不明' };
       }
 
-      // 匿名IDを取得
-      const anonymousId = accountIdToAnonymousId.get(speakerInfo.account_id)!;
-      
-      // ロール情報があれば表示
-      const roleLabel = this.getRoleLabel(speakerInfo.speaker_role);
-      const speaker = roleLabel ? `${anonymousId} (${roleLabel})` : anonymousId;
+      // 匿名IDで表示
+      const speaker = this.formatSpeakers(speakerInfos, info => accountIdToAnonymousId.get(info.account_id)!);
 
       return {
         ...item,
@@ -163,6 +313,33 @@ export class JSONFormatter {
     });
   }
 
+  /**
+   * 添付ファイル名を除去（外部用）
+   * ファイル名に案件名・クライアント名が含まれることが多いため、file_idのみ残す
+   */
+  private stripFileNames<T extends AnalyzedMessage>(item: T): T {
+    if (!item.referenced_files) {
+      return item;
+    }
+    return {
+      ...item,
+      referenced_files: item.referenced_files.map(file => ({ file_id: file.file_id }))
+    };
+  }
+
+  /**
+   * 発言者の表示（ロール情報があれば付ける。会話単位の知見は複数人をカンマ区切り）
+   */
+  private formatSpeakers(speakerInfos: SpeakerInfo[], nameOf: (info: SpeakerInfo) => string): string {
+    return speakerInfos
+      .map(info => {
+        const name = nameOf(info);
+        const roleLabel = this.getRoleLabel(info.speaker_role);
+        return roleLabel ? `${name} (${roleLabel})` : name;
+      })
+      .join(', ');
+  }
+
   /**
    * ロールをラベル表示に変換
    */
@@ -1,9 +1,14 @@
-import type { AnalyzedMessage } from '../claude/analyzer.js';
+import { getSourceMessageIds, getMentionedMessageIds, type AnalyzedMessage } from '../claude/analyzer.js';
+import { getMentionCount } from '../claude/consolidate.js';
 import { writeFile } from 'fs/promises';
 import { mkdir } from 'fs/promises';
 import { dirname } from 'path';
-import { SpeakerMapManager } from '../cache/speakerMap.js';
+import { SpeakerMapManager, resolveSpeakers, type SpeakerInfo } from '../cache/speakerMap.js';
 import { MessageCacheManager } from '../cache/messages.js';
+import { ThreadMapManager } from '../cache/threads.js';
+import { buildMessageUrl, type ThreadLink } from '../chatwork/thread.js';
+import { toMarkdown } from '../chatwork/markup.js';
+import { describeGapReason, formatGapPeriod, type HistoryGap } from '../cache/gaps.js';
 import { Logger } from '../utils/logger.js';
 
 export interface FormatOptions {
@@ -11,8 +16,13 @@ export interface FormatOptions {
   roomId?: string;
   model?: string;
   anonymize?: boolean;
+  // 元メッセージのURL生成（未指定はChatwork、nullを返すとリンクなし）
+  messageUrl?: (roomId: string, messageId: string) => string | null;
+  gaps?: HistoryGap[];  // メッセージを取得できていない可能性がある期間
 }
 
+type MessageUrlResolver = NonNullable<FormatOptions['messageUrl']>;
+
 export class MarkdownFormatter {
   private logger: Logger;
 
@@ -29,7 +39,8 @@ export class MarkdownFormatter {
     options: FormatOptions = {},
     speakerMapManager: SpeakerMapManager,
     roomId: string,
-    messageCacheManager?: MessageCacheManager
+    messageCacheManager?: MessageCacheManager,
+    threadMapManager?: ThreadMapManager
   ): Promise<void> {
     let items: (AnalyzedMessage & { speaker: string })[];
 
@@ -45,11 +56,18 @@ export class MarkdownFormatter {
     // カテゴリ別にグループ化
     const grouped = this.groupByCategory(items);
 
+    // 内部用のみスレッド情報（返信先・引用元）を読み込み
+    let threadLinks: Record<string, ThreadLink> | null = null;
+    if (!options.anonymize && threadMapManager) {
+      const threadMap = await threadMapManager.load(roomId);
+      threadLinks = threadMap?.links ?? null;
+    }
+
     // Markdownを生成
     let markdown = this.generateHeader(options);
 
     for (const [category, categoryItems] of Object.entries(grouped)) {
-      markdown += await this.generateCategorySection(category, categoryItems, options.anonymize || false, messageCacheManager, roomId);
+      markdown += await this.generateCategorySection(category, categoryItems, options.anonymize || false, messageCacheManager, roomId, threadLinks, options.messageUrl ?? buildMessageUrl);
     }
 
     // ファイル出力
@@ -72,14 +90,12 @@ export class MarkdownFormatter {
     }
 
     return messages.map(item => {
-      const speakerInfo = speakerMap.speakers[item.message_id];
-      if (!speakerInfo) {
+      const speakerInfos = resolveSpeakers(speakerMap, getMentionedMessageIds(item));
+      if (speakerInfos.length === 0) {
         this.logger.warn(`message_id ${item.message_id} のSpeaker情報が見つかりません。デフォルト値を使用します。`);
         return { ...item, speaker: '不明' };
       }
-      // ロール情報があれば表示
-      const roleLabel = this.getRoleLabel(speakerInfo.speaker_role);
-      const speaker = roleLabel ? `${speakerInfo.speaker_name} (${roleLabel})` : speakerInfo.speaker_name;
+      const speaker = this.formatSpeakers(speakerInfos, info => info.speaker_name);
       return { ...item, speaker };
     });
   }
@@ -105,8 +121,7 @@ export class MarkdownFormatter {
     // 一貫性のため、account_idでソート
     const allAccountIds = new Set<number>();
     for (const msg of messages) {
-      const speakerInfo = speakerMap.speakers[msg.message_id];
-      if (speakerInfo) {
+      for (const speakerInfo of resolveSpeakers(speakerMap, getMentionedMessageIds(msg))) {
         allAccountIds.add(speakerInfo.account_id);
       }
     }
@@ -118,18 +133,14 @@ export class MarkdownFormatter {
     }
 
     return messages.map(item => {
-      const speakerInfo = speakerMap.speakers[item.message_id];
-      if (!speakerInfo) {
+      const speakerInfos = resolveSpeakers(speakerMap, getMentionedMessageIds(item));
+      if (speakerInfos.length === 0) {
         this.logger.warn(`message_id ${item.message_id} のSpeaker情報が見つかりません。デフォルト値を使用します。`);
         return { ...item, speaker: '不明' };
       }
 
-      // 匿名IDを取得
-      const anonymousId = accountIdToAnonymousId.get(speakerInfo.account_id)!;
-      
-      // ロール情報があれば表示
-      const roleLabel = this.getRoleLabel(speakerInfo.speaker_role);
-      const speaker = roleLabel ? `${anonymousId} (${roleLabel})` : anonymousId;
+      // 匿名IDで表示
+      const speaker = this.formatSpeakers(speakerInfos, info => accountIdToAnonymousId.get(info.account_id)!);
 
       return {
         ...item,
@@ -185,9 +196,22 @@ export class MarkdownFormatter {
     return `# Chatwork知見まとめ
 
 ${roomInfo}${modelInfo}生成日時: ${now.toLocaleString('ja-JP')}
-
+${this.generateGapNotice(options.gaps ?? [])}
 ---
 
+`;
+  }
+
+  /**
+   * 欠落期間の注意書き（この期間の知見は含まれていない）
+   */
+  private generateGapNotice(gaps: HistoryGap[]): string {
+    if (gaps.length === 0) return '';
+
+    const lines = gaps.map(gap => `> - ${formatGapPeriod(gap)}（${describeGapReason(gap.reason)}）`);
+    return `
+> ⚠️ 以下の期間はメッセージを取得できていない可能性があり、この期間の知見は含まれていません。
+${lines.join('\n')}
 `;
   }
 
@@ -199,7 +223,9 @@ ${roomInfo}${modelInfo}生成日時: ${now.toLocaleString('ja-JP')}
     items: (AnalyzedMessage & { speaker: string })[], 
     isAnonymized: boolean,
     messageCacheManager: MessageCacheManager | undefined,
-    roomId: string
+    roomId: string,
+    threadLinks: Record<string, ThreadLink> | null,
+    messageUrl: MessageUrlResolver
   ): Promise<string> {
     const emoji = this.getCategoryEmoji(category);
     let section = `## ${emoji} ${category}\n\n`;
@@ -211,7 +237,7 @@ ${roomInfo}${modelInfo}生成日時: ${now.toLocaleString('ja-JP')}
     }
 
     for (const item of items) {
-      section += await this.generateMessageBlock(item, isAnonymized, messageMap);
+      section += await this.generateMessageBlock(item, isAnonymized, messageMap, roomId, threadLinks, messageUrl);
       section += '\n---\n\n';
     }
 
@@ -219,7 +245,7 @@ ${roomInfo}${modelInfo}生成日時: ${now.toLocaleString('ja-JP')}
   }
 
   /**
-   * メッセージIDからメッセージ本文へのマップを作成（O(1)ルックアップ用）
+   * メッセージIDからメッセージ本文（Markdown変換済み）へのマップを作成（O(1)ルックアップ用）
    */
   private async createMessageMap(
     messageCacheManager: MessageCacheManager,
@@ -229,8 +255,15 @@ ${roomInfo}${modelInfo}生成日時: ${now.toLocaleString('ja-JP')}
     try {
       const cache = await messageCacheManager.load(roomId);
       if (cache) {
+        // [To:123] 等のメンションを名前で表示するため、account_id → 名前を収集
+        const accountNames = new Map<number, string>();
+        for (const msg of cache.messages) {
+          accountNames.set(msg.account.account_id, msg.account.name);
+        }
+        const resolveAccountName = (accountId: number) => accountNames.get(accountId);
+
         for (const msg of cache.messages) {
-          messageMap.set(msg.message_id, msg.body);
+          messageMap.set(msg.message_id, toMarkdown(msg.body, { resolveAccountName }));
         }
       }
     } catch (e) {
@@ -245,29 +278,154 @@ ${roomInfo}${modelInfo}生成日時: ${now.toLocaleString('ja-JP')}
   private async generateMessageBlock(
     item: AnalyzedMessage & { speaker: string },
     isAnonymized: boolean,
-    messageMap: Map<string, string> | null
+    messageMap: Map<string, string> | null,
+    roomId: string,
+    threadLinks: Record<string, ThreadLink> | null,
+    messageUrl: MessageUrlResolver
   ): Promise<string> {
     let block = `### [汎用性: ${item.versatility}] ${item.title}
 
 - 発言者: ${item.speaker}
-- 日時: ${new Date(item.date).toLocaleString('ja-JP')}
-- タグ: ${item.tags.map(tag => `\`${tag}\``).join(', ')}
+- 日時: ${new Date(item.date).toLocaleString('ja-JP')}${this.formatMentionCount(item)}
+- タグ: ${item.tags.map(tag => `\`${tag}\``).join(', ')}${item.source_kind === 'task' ? '\n- 取得元: タスク' : ''}${this.formatReferencedFiles(item, isAnonymized)}
 
 ${item.formatted_content}
 
 `;
 
+    const sourceIds = getSourceMessageIds(item);
+
     // 内部用の場合のみ、元発言を追加
     if (!isAnonymized && messageMap) {
-      const originalMessage = messageMap.get(item.message_id);
-      if (originalMessage) {
-        block += `元発言 (メッセージID: ${item.message_id}):\n\n${this.formatAsQuotedBlock(originalMessage)}\n\n`;
+      if (sourceIds.length > 1) {
+        // 会話単位の知見は寄与したメッセージをすべて時系列で並べる
+        block += `元発言 (${sourceIds.length}件の会話):\n\n`;
+        for (const sourceId of sourceIds) {
+          const originalMessage = messageMap.get(sourceId);
+          block += `${this.formatMessageLink(roomId, sourceId, messageUrl)}\n\n`;
+          if (originalMessage) {
+            block += `${this.formatAsQuotedBlock(originalMessage)}\n\n`;
+          }
+        }
+      } else {
+        const originalMessage = messageMap.get(item.message_id);
+        if (originalMessage) {
+          block += `元発言 (メッセージID: ${item.message_id}):\n\n${this.formatAsQuotedBlock(originalMessage)}\n\n`;
+        }
       }
     }
 
+    // 内部用の場合のみ、返信先・引用元へのリンクを追加（会話単位の知見はやりとりが元発言に含まれるため省略）
+    const threadLink = sourceIds.length === 1 ? threadLinks?.[item.message_id] : undefined;
+    if (!isAnonymized && threadLink) {
+      block += this.generateThreadBlock(threadLink, messageMap, roomId, messageUrl);
+    }
+
+    // 内部用の場合のみ、統合した他の言及へのリンクを追加
+    if (!isAnonymized) {
+      block += this.generateMentionBlock(item, roomId, messageUrl);
+    }
+
     return block;
   }
 
+  /**
+   * 言及の回数の行（統合した知見のみ。例: 3回（2024/1/10 〜 2024/9/20））
+   */
+  private formatMentionCount(item: AnalyzedMessage): string {
+    const count = getMentionCount(item);
+    if (count <= 1) {
+      return '';
+    }
+    const dates = item.mentions!.map(mention => new Date(mention.date).toLocaleDateString('ja-JP'));
+    return `\n- 言及: ${count}回（${dates[0]} 〜 ${dates[dates.length - 1]}）`;
+  }
+
+  /**
+   * 統合した他の言及（代表以外）へのリンクブロック生成
+   */
+  private generateMentionBlock(
+    item: AnalyzedMessage,
+    roomId: string,
+    messageUrl: MessageUrlResolver
+  ): string {
+    const others = (item.mentions ?? []).filter(mention => mention.message_id !== item.message_id);
+    if (others.length === 0) {
+      return '';
+    }
+
+    let block = `他の言及 (${others.length}件):\n\n`;
+    for (const mention of others) {
+      block += `- ${new Date(mention.date).toLocaleString('ja-JP')} ${this.formatMessageLink(roomId, mention.message_id, messageUrl)}\n`;
+    }
+    return `${block}\n`;
+  }
+
+  /**
+   * 返信先・引用元のリンクブロック生成
+   */
+  private generateThreadBlock(
+    threadLink: ThreadLink,
+    messageMap: Map<string, string> | null,
+    roomId: string,
+    messageUrl: MessageUrlResolver
+  ): string {
+    let block = '';
+
+    if (threadLink.parent_message_id) {
+      const parentRoomId = threadLink.parent_room_id || roomId;
+      block += `返信先: ${this.formatMessageLink(parentRoomId, threadLink.parent_message_id, messageUrl)}\n\n`;
+      const parentMessage = messageMap?.get(threadLink.parent_message_id);
+      if (parentMessage) {
+        block += `${this.formatAsQuotedBlock(parentMessage)}\n\n`;
+      }
+    }
+
+    for (const quotedId of threadLink.quoted_message_ids) {
+      block += `引用元: ${this.formatMessageLink(roomId, quotedId, messageUrl)}\n\n`;
+    }
+
+    return block;
+  }
+
+  /**
+   * メッセージIDのリンク（URLを生成できないソースではIDのみ）
+   */
+  private formatMessageLink(roomId: string, messageId: string, messageUrl: MessageUrlResolver): string {
+    const url = messageUrl(roomId, messageId);
+    return url ? `[メッセージID: ${messageId}](${url})` : `メッセージID: ${messageId}`;
+  }
+
+  /**
+   * 参照している添付ファイルの行を生成
+   * 外部用はファイル名を出さず件数のみ
+   */
+  private formatReferencedFiles(item: AnalyzedMessage, isAnonymized: boolean): string {
+    const files = item.referenced_files;
+    if (!files || files.length === 0) {
+      return '';
+    }
+    if (isAnonymized) {
+      return `\n- 添付ファイル: ${files.length}件`;
+    }
+    const names = files.map(file => {
+      if (!file.filename) return `(ファイルID: ${file.file_id})`;
+      return file.filesize !== undefined
+        ? `${file.filename} (${this.formatFileSize(file.filesize)})`
+        : file.filename;
+    });
+    return `\n- 添付ファイル: ${names.join(', ')}`;
+  }
+
+  /**
+   * ファイルサイズを読みやすい単位に変換
+   */
+  private formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes}B`;
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+  }
+
   /**
    * テキストをMarkdownの引用ブロック形式に変換
    */
@@ -291,6 +449,19 @@ ${item.formatted_content}
     return emojiMap[category] || '📄';
   }
 
+  /**
+   * 発言者の表示（ロール情報があれば付ける。会話単位の知見は複数人をカンマ区切り）
+   */
+  private formatSpeakers(speakerInfos: SpeakerInfo[], nameOf: (info: SpeakerInfo) => string): string {
+    return speakerInfos
+      .map(info => {
+        const name = nameOf(info);
+        const roleLabel = this.getRoleLabel(info.speaker_role);
+        return roleLabel ? `${name} (${roleLabel})` : name;
+      })
+      .join(', ');
+  }
+
   /**
    * ロールをラベル表示に変換
    */
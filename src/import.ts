@@ -0,0 +1,117 @@
+import dotenv from 'dotenv';
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import {
+  parseExportFile,
+  detectImportFormat,
+  isImportFormat,
+  toChatworkMessages,
+  buildKnownAccounts,
+  excludeCachedDuplicates,
+  type ImportFormat
+} from './chatwork/importer.js';
+import { MessageCacheManager } from './cache/messages.js';
+import { Logger } from './utils/logger.js';
+
+// 環境変数読み込み
+dotenv.config();
+
+/**
+ * エクスポートファイルから過去のメッセージをキャッシュに取り込む
+ *
+ * 使い方:
+ *   npm run import -- <ファイル> [--room <ルームID>] [--format csv|text|json]
+ *
+ * 取り込んだメッセージは未分析として room_{roomId}.json に追加され、次回の通常実行で分析される
+ */
+async function main() {
+  const logger = new Logger('Import');
+  const args = process.argv.slice(2);
+
+  const filePath = args.find((arg, i) => !arg.startsWith('--') && !['--room', '--format'].includes(args[i - 1]));
+  const roomOption = getOption(args, '--room');
+  const formatOption = getOption(args, '--format');
+
+  if (!filePath) {
+    logger.error('エラー: 取り込むファイルを指定してください');
+    logger.error('使い方: npm run import -- <ファイル> [--room <ルームID>] [--format csv|text|json]');
+    process.exit(1);
+  }
+
+  if (!existsSync(filePath)) {
+    logger.error(`エラー: ファイルが見つかりません: ${filePath}`);
+    process.exit(1);
+  }
+
+  let format: ImportFormat | null = detectImportFormat(filePath);
+  if (formatOption) {
+    if (!isImportFormat(formatOption)) {
+      logger.error(`エラー: --format の値が不正です: ${formatOption}（csv / text / json）`);
+      process.exit(1);
+    }
+    format = formatOption;
+  }
+  if (!format) {
+    logger.error('エラー: ファイル形式を判定できません。--format csv|text|json を指定してください');
+    process.exit(1);
+  }
+
+  logger.info('=== Chatwork 履歴インポート ===\n');
+  logger.info(`ファイル: ${filePath} (${format})`);
+
+  const content = await readFile(filePath, 'utf-8');
+  const result = parseExportFile(content, format);
+
+  // ルームIDは --room > JSONのroom_id > CHATWORK_ROOM_ID の順で決定
+  const roomId = roomOption || result.roomId || process.env.CHATWORK_ROOM_ID;
+  if (!roomId) {
+    logger.error('エラー: 取り込み先のルームIDが分かりません。--room <ルームID> を指定してください');
+    process.exit(1);
+  }
+
+  logger.info(`取り込み先ルーム: ${roomId}`);
+  logger.info(`読み取り: ${result.records.length}件${result.skipped > 0 ? ` (読み取れない行: ${result.skipped}件)` : ''}\n`);
+
+  if (result.records.length === 0) {
+    logger.info('取り込むメッセージがありません。');
+    return;
+  }
+
+  const cacheManager = new MessageCacheManager();
+  const existingCache = await cacheManager.load(roomId);
+  const cachedMessages = existingCache?.messages ?? [];
+
+  const imported = toChatworkMessages(result.records, buildKnownAccounts(cachedMessages), filePath);
+  const { messages: newMessages, duplicates } = excludeCachedDuplicates(imported, cachedMessages);
+  if (duplicates > 0) {
+    logger.info(`キャッシュ済みのメッセージと重複: ${duplicates}件（スキップ）`);
+  }
+
+  const { messages: merged } = cacheManager.mergeMessages(cachedMessages, newMessages);
+  await cacheManager.save(roomId, merged);
+
+  if (newMessages.length > 0) {
+    // 大量の履歴でもスタックを溢れさせないようreduceで集計
+    const oldest = newMessages.reduce((min, m) => Math.min(min, m.send_time), Infinity);
+    const newest = newMessages.reduce((max, m) => Math.max(max, m.send_time), 0);
+    logger.info(`取り込み期間: ${new Date(oldest * 1000).toLocaleString('ja-JP')} 〜 ${new Date(newest * 1000).toLocaleString('ja-JP')}`);
+  }
+
+  logger.info(`\n✅ インポート完了: ${merged.length - cachedMessages.length}件を追加（キャッシュ合計 ${merged.length}件）`);
+  logger.info('次回の通常実行で未分析メッセージとして分析されます（MAX_MESSAGES を超える分は対象外になるため、必要に応じて増やしてください）');
+}
+
+/**
+ * `--name value` 形式のオプション値を取得
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+main().catch(error => {
+  const logger = new Logger('Import');
+  const errorMsg = error instanceof Error ? error.message : String(error);
+  logger.error(`インポートに失敗しました: ${errorMsg}`, error);
+  process.exit(1);
+});
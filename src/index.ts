@@ -1,13 +1,67 @@
 import dotenv from 'dotenv';
-import { ChatworkClient } from './chatwork/client.js';
-import { ClaudeAnalyzer, type AnalyzedMessage } from './claude/analyzer.js';
+import { ChatworkClient, type RoomInfo, type ChatworkFile, type ChatworkMessage } from './chatwork/client.js';
+import { selectRooms, parsePatternList, matchesWildcard } from './chatwork/roomSelector.js';
+import { taskToMessage } from './chatwork/tasks.js';
+import { resolveFileReferences, collectReferencedFiles, type ReferencedFile } from './chatwork/files.js';
+import {
+  ClaudeAnalyzer,
+  getSourceMessageIds,
+  type AnalyzedMessage,
+  type AnalysisOutcome,
+  type PreparedRequest
+} from './claude/analyzer.js';
+import { createContextResolver, isContextMode, type ContextMode, type ContextResolver } from './claude/context.js';
+import { isOutputMode, type OutputMode } from './claude/schema.js';
+import { AnthropicProvider, isApiMode, isProviderName, type AnalysisProvider, type ProviderName } from './claude/provider.js';
+import { OpenAICompatibleProvider, DEFAULT_OPENAI_TIMEOUT_SECONDS } from './claude/openaiProvider.js';
+import {
+  MessageTriage,
+  DEFAULT_TRIAGE_MODEL,
+  DEFAULT_TRIAGE_BATCH_MAX_WAIT_MINUTES,
+  TRIAGE_EXCLUDED_REASON,
+  type TriageConfig,
+  type TriageOutcome
+} from './claude/triage.js';
+import { consolidateKnowledge, assignMentionRoom, DEFAULT_CONSOLIDATE_CONFIG, type ConsolidateConfig } from './claude/consolidate.js';
+import { estimateCost, formatCost, formatTotalCost, formatUsage, emptyUsage, addUsage, type TokenUsage } from './claude/pricing.js';
+import {
+  estimateUsage,
+  formatCostEstimates,
+  writePromptPreview,
+  ESTIMATED_OUTPUT_TOKENS_PER_REQUEST,
+  type PromptPreview
+} from './claude/preview.js';
+import {
+  buildConversationWindows,
+  isAnalysisUnit,
+  DEFAULT_WINDOW_CONFIG,
+  type AnalysisUnit,
+  type ConversationWindow,
+  type WindowConfig
+} from './claude/window.js';
 import { MarkdownFormatter } from './formatter/markdown.js';
-import { JSONFormatter } from './formatter/json.js';
+import { JSONFormatter, type CombinedKnowledgeItem, type RoomKnowledge } from './formatter/json.js';
 import { MessageCacheManager } from './cache/messages.js';
 import { SpeakerMapManager } from './cache/speakerMap.js';
-import { TeamProfileManager } from './team/profiles.js';
-import { filterMessages } from './utils/messageFilter.js';
+import { ThreadMapManager } from './cache/threads.js';
+import { BatchJobManager } from './cache/batchJobs.js';
+import { RunHistoryManager, type RunUsageRecord } from './cache/runHistory.js';
+import { TriageCacheManager, isVerdictValid, type TriageVerdict } from './cache/triage.js';
+import type { HistoryGap } from './cache/gaps.js';
+import { DEFAULT_MAX_ANALYSIS_ATTEMPTS } from './cache/analysisStatus.js';
+import { TeamProfileManager, type ResolvedRole } from './team/profiles.js';
+import { filterMessages, type FilterConfig } from './utils/messageFilter.js';
+import { filterMessagesByExtractFrom } from './utils/extractFrom.js';
+import {
+  resolveWatchInterval,
+  formatCycleStats,
+  DEFAULT_WATCH_CONFIG,
+  type WatchConfig
+} from './utils/watchSchedule.js';
 import { Logger } from './utils/logger.js';
+import { ChatworkSource } from './sources/chatwork.js';
+import { SlackExportSource } from './sources/slack.js';
+import { isSourceType, type MessageSource, type SourceType } from './sources/types.js';
 import { join } from 'path';
 
 // 環境変数読み込み
@@ -25,25 +79,146 @@ function parsePositiveInt(value: string | undefined, defaultValue: number): numb
   return Number.isNaN(parsed) || parsed < 0 ? defaultValue : parsed;
 }
 
+/**
+ * 対象ルームIDの一覧を環境変数から取得
+ * CHATWORK_ROOM_IDS（カンマ区切り）を優先し、未設定ならCHATWORK_ROOM_IDを使用
+ */
+function parseRoomIds(): string[] {
+  const raw = process.env.CHATWORK_ROOM_IDS || process.env.CHATWORK_ROOM_ID || '';
+  const roomIds = raw
+      .split(',')
+      .map(id => id.trim())
+      .filter(id => id.length > 0);
+  return [...new Set(roomIds)];
+}
+
+/**
+ * 1回の実行で全ルーム共通の設定・依存オブジェクト
+ */
+interface RunContext {
+  isReanalyze: boolean;
+  isResume: boolean;        // 未回収のBatchの結果を回収してから処理する
+  isSubmitOnly: boolean;    // Batchを送信したら完了を待たない
+  isDryRun: boolean;        // 送信内容の確認のみ（Claude APIを呼び出さず、分析済みにもしない）
+  source: MessageSource;
+  chatworkClient: ChatworkClient | null;  // タスク・添付ファイルなどChatwork固有の機能用（Slackではnull）
+  cacheManager: MessageCacheManager;
+  speakerMapManager: SpeakerMapManager;
+  threadMapManager: ThreadMapManager;
+  batchJobManager: BatchJobManager;
+  runHistoryManager: RunHistoryManager;
+  teamProfileManager: TeamProfileManager | null;
+  getAnalyzer: () => ClaudeAnalyzer;
+  getTriage: () => MessageTriage;
+  triageConfig: TriageConfig | null;  // トリアージを行わない場合はnull
+  triageCacheManager: TriageCacheManager;
+  outputDir: string;
+  timestamp: string;
+  maxMessages: number;
+  claudeModel?: string;     // 分析に使うモデル（ANALYSIS_PROVIDER=openai の場合は OPENAI_MODEL）
+  claudeApiMode: 'batch' | 'realtime';
+  maxAnalysisAttempts: number;  // 分析に失敗したメッセージを再試行する回数の上限（初回を含む）
+  outputVersatility: string[];
+  consolidateConfig: ConsolidateConfig | null;  // 重複した知見を統合しない場合はnull
+  extractFromRaw?: string;
+  filterConfig: Pick<FilterConfig, 'minLength' | 'maxLength' | 'boilerplateThreshold'>;
+  contextMode: ContextMode;
+  contextSize: number;
+  analysisUnit: AnalysisUnit;
+  windowConfig: WindowConfig;
+  includeTasks: boolean;
+  includeFiles: boolean;
+}
+
+/**
+ * 段階ごとに分析対象から外したメッセージ数（今回の実行分）
+ */
+interface StageDropCounts {
+  prefilter: number;  // 事前フィルタ（短すぎる・定型文）
+  triage: number;     // トリアージ（知見なしと判定）
+  analysis: number;   // 本分析（出力対象になる知見なし）
+}
+
+/**
+ * ルームごとの処理結果
+ */
+interface RoomRunResult {
+  roomId: string;
+  roomName?: string;
+  status: 'success' | 'empty' | 'failed';
+  knowledgeItems: AnalyzedMessage[];
+  model: string;
+  outputFiles: string[];
+  warnings: string[];
+  gaps: HistoryGap[];
+  usage: RunUsageRecord[];  // この実行で使用したトークン・料金（分析・Batchの回収ごと）
+  dropped?: StageDropCounts;  // 段階ごとに分析対象から外したメッセージ数（分析しなかった場合はなし）
+  preview?: PromptPreview;  // dry-runの見積もり
+  error?: string;
+}
+
 async function main() {
   const logger = new Logger('Main');
 
   // コマンドライン引数チェック
   const args = process.argv.slice(2);
   const isReanalyze = args.includes('--reanalyze');
+  const isWatch = args.includes('--watch');
+  const isResume = args.includes('--resume');
+  const isSubmitOnly = args.includes('--submit-only');
+  const isDryRun = args.includes('--dry-run');
 
   logger.info('=== Chatwork Knowledge Extractor ===\n');
+  if (isReanalyze && isWatch) {
+    logger.error('エラー: --reanalyze と --watch は同時に指定できません');
+    process.exit(1);
+  }
+  if (isWatch && (isResume || isSubmitOnly)) {
+    logger.error('エラー: --resume / --submit-only は --watch と同時に指定できません');
+    process.exit(1);
+  }
+  if (isSubmitOnly && isReanalyze) {
+    logger.error('エラー: --submit-only と --reanalyze は同時に指定できません');
+    process.exit(1);
+  }
+  if (isDryRun && (isReanalyze || isWatch || isResume || isSubmitOnly)) {
+    logger.error('エラー: --dry-run は --reanalyze / --watch / --resume / --submit-only と同時に指定できません');
+    process.exit(1);
+  }
   if (isReanalyze) {
-    logger.info('モード: 再出力（キャッシュから出力のみ、Claude API呼び出しなし）\n');
+    logger.info(isResume
+      ? 'モード: 回収（未回収のBatchの結果を保存してからキャッシュを出力、新しいメッセージの取得・分析なし）\n'
+      : 'モード: 再出力（キャッシュから出力のみ、Claude API呼び出しなし）\n');
+  } else if (isResume) {
+    logger.info('モード: 未回収のBatchの結果を保存してから通常実行\n');
+  }
+  if (isSubmitOnly) {
+    logger.info('モード: Batchの送信のみ（完了を待たずに終了、結果は npm run collect で回収）\n');
+  }
+  if (isWatch) {
+    logger.info('モード: watch（常駐してメッセージを蓄積、Ctrl+Cで停止）\n');
+  }
+  if (isDryRun) {
+    logger.info('モード: dry-run（送信するプロンプトの書き出しと見積もりのみ、Claude API呼び出しなし）\n');
   }
 
   // 環境変数チェック
+  const sourceTypeRaw = process.env.MESSAGE_SOURCE || 'chatwork';
+  if (!isSourceType(sourceTypeRaw)) {
+    logger.error(`エラー: MESSAGE_SOURCE の値が不正です: ${sourceTypeRaw}（chatwork / slack）`);
+    process.exit(1);
+  }
+  const sourceType: SourceType = sourceTypeRaw;
   const chatworkToken = process.env.CHATWORK_API_TOKEN;
-  const roomId = process.env.CHATWORK_ROOM_ID;
+  const explicitRoomIds = parseRoomIds();
+  const roomIncludePatterns = parsePatternList(process.env.CHATWORK_ROOM_INCLUDE);
+  const roomExcludePatterns = parsePatternList(process.env.CHATWORK_ROOM_EXCLUDE);
+  const roomTypes = parsePatternList(process.env.CHATWORK_ROOM_TYPES || 'group') as RoomInfo['type'][];
   const claudeApiKey = process.env.CLAUDE_API_KEY;
   const outputDir = process.env.OUTPUT_DIR || './output';
   const maxMessages = parseInt(process.env.MAX_MESSAGES || '500');
   const promptTemplatePath = process.env.PROMPT_TEMPLATE_PATH;
+  const windowPromptTemplatePath = process.env.WINDOW_PROMPT_TEMPLATE_PATH;
   const feedbackPath = process.env.FEEDBACK_PATH;
   const teamProfilesPath = process.env.TEAM_PROFILES_PATH;
   const claudeModel = process.env.CLAUDE_MODEL;
@@ -51,6 +226,21 @@ async function main() {
       .split(',')
       .map(v => v.trim());
 
+  // 重複した知見の統合（タイトル・タグ・本文の類似度がしきい値以上の知見を1件にまとめて出力）
+  let consolidateThreshold = DEFAULT_CONSOLIDATE_CONFIG.threshold;
+  const consolidateThresholdRaw = process.env.OUTPUT_CONSOLIDATE_THRESHOLD;
+  if (consolidateThresholdRaw) {
+    const parsed = Number(consolidateThresholdRaw);
+    if (Number.isNaN(parsed) || parsed <= 0 || parsed > 1) {
+      logger.warn(`警告: OUTPUT_CONSOLIDATE_THRESHOLD の値が不正です: ${consolidateThresholdRaw}（0より大きく1以下）。${consolidateThreshold}を使用します`);
+    } else {
+      consolidateThreshold = parsed;
+    }
+  }
+  const consolidateConfig: ConsolidateConfig | null = process.env.OUTPUT_CONSOLIDATE === 'false'
+    ? null
+    : { threshold: consolidateThreshold };
+
   // EXTRACT_FROM: 日付形式（YYYY-MM-DD）または日数
   const extractFromRaw = process.env.EXTRACT_FROM;
 
@@ -67,305 +257,1358 @@ async function main() {
     filterConfig.maxLength = Math.max(filterConfig.minLength, filterConfig.maxLength);
   }
 
-  // Claude API種別の選択
-  const claudeApiMode = (process.env.CLAUDE_API_MODE || 'batch') as 'batch' | 'realtime';
+  // 分析時に含める文脈（none / previous / thread）
+  const contextModeRaw = process.env.ANALYSIS_CONTEXT_MODE || 'none';
+  let contextMode: ContextMode = 'none';
+  if (isContextMode(contextModeRaw)) {
+    contextMode = contextModeRaw;
+  } else {
+    logger.warn(`警告: ANALYSIS_CONTEXT_MODE の値が不正です: ${contextModeRaw}（none / previous / thread）。文脈なしで分析します`);
+  }
+  const contextSize = parsePositiveInt(process.env.ANALYSIS_CONTEXT_SIZE, 3);
 
-  // reanalyzeモードではClaude APIキーは不要
-  if (!chatworkToken || !roomId) {
-    logger.error('エラー: CHATWORK_API_TOKEN, CHATWORK_ROOM_ID が設定されていません');
-    logger.error('.envファイルを確認してください');
+  // 分析の単位（message: メッセージごと / window: 会話ウィンドウごと）
+  const analysisUnitRaw = process.env.ANALYSIS_UNIT || 'message';
+  let analysisUnit: AnalysisUnit = 'message';
+  if (isAnalysisUnit(analysisUnitRaw)) {
+    analysisUnit = analysisUnitRaw;
+  } else {
+    logger.warn(`警告: ANALYSIS_UNIT の値が不正です: ${analysisUnitRaw}（message / window）。メッセージ単位で分析します`);
+  }
+  const windowConfig: WindowConfig = {
+    gapMinutes: parsePositiveInt(process.env.ANALYSIS_WINDOW_GAP_MINUTES, DEFAULT_WINDOW_CONFIG.gapMinutes),
+    maxMessages: parsePositiveInt(process.env.ANALYSIS_WINDOW_MAX_MESSAGES, DEFAULT_WINDOW_CONFIG.maxMessages) || 1,
+  };
+
+  // 応答の受け取り方（tool: ツール呼び出し / text: 本文のJSON）と不正な応答の修正依頼回数
+  const outputModeRaw = process.env.ANALYSIS_OUTPUT_MODE || 'tool';
+  let outputMode: OutputMode = 'tool';
+  if (isOutputMode(outputModeRaw)) {
+    outputMode = outputModeRaw;
+  } else {
+    logger.warn(`警告: ANALYSIS_OUTPUT_MODE の値が不正です: ${outputModeRaw}（tool / text）。toolで分析します`);
+  }
+  const maxRepairAttempts = parsePositiveInt(process.env.ANALYSIS_REPAIR_RETRIES, 2);
+
+  // 分析に失敗したメッセージ（APIエラー・修正依頼でも直らない応答）を次回以降に再試行する回数の上限
+  const maxAnalysisAttempts = parsePositiveInt(process.env.ANALYSIS_MAX_ATTEMPTS, DEFAULT_MAX_ANALYSIS_ATTEMPTS) || 1;
+
+  // ルームのタスクも分析対象にするか（Chatworkのみ）
+  const includeTasks = sourceType === 'chatwork' && process.env.CHATWORK_INCLUDE_TASKS === 'true';
+
+  // 添付ファイルのメタデータを取得して知見に紐づけるか（Chatworkのみ）
+  const includeFiles = sourceType === 'chatwork' && process.env.CHATWORK_INCLUDE_FILES === 'true';
+
+  // 分析に使うLLMのAPI（anthropic: Claude API / openai: OpenAI互換API）
+  // 値が不正な場合に外部のAPIへ送ってしまわないよう、既定値にはせずエラーにする
+  const providerRaw = process.env.ANALYSIS_PROVIDER || 'anthropic';
+  if (!isProviderName(providerRaw)) {
+    logger.error(`エラー: ANALYSIS_PROVIDER の値が不正です: ${providerRaw}（anthropic / openai）`);
     process.exit(1);
   }
+  const providerName: ProviderName = providerRaw;
+  const openaiBaseUrl = process.env.OPENAI_BASE_URL;
+  const openaiModel = process.env.OPENAI_MODEL;
+  const analysisModel = providerName === 'openai' ? openaiModel : claudeModel;
+
+  // Claude API種別の選択（OpenAI互換APIはRealtimeのみ）
+  const claudeApiMode = (process.env.CLAUDE_API_MODE || (providerName === 'openai' ? 'realtime' : 'batch')) as 'batch' | 'realtime';
+
+  // トリアージ: 安価なモデルで知見の有無だけを判定し、知見ありのメッセージのみ本分析に送る
+  const triageEnabled = process.env.TRIAGE_ENABLED === 'true';
+  const triageModel = process.env.TRIAGE_MODEL || (providerName === 'anthropic' ? DEFAULT_TRIAGE_MODEL : '');
+  let triageConfig: TriageConfig | null = null;
+  if (triageEnabled) {
+    // 値が不正な場合に意図せず通常価格のRealtime APIで判定しないよう、既定値にはせずエラーにする
+    const triageApiMode = process.env.TRIAGE_API_MODE || claudeApiMode;
+    if (!isApiMode(triageApiMode)) {
+      logger.error(`エラー: TRIAGE_API_MODE の値が不正です: ${triageApiMode}（batch / realtime）`);
+      process.exit(1);
+    }
+    triageConfig = {
+      model: triageModel,
+      apiMode: triageApiMode,
+      outputMode,
+      batchMaxWaitMinutes: parsePositiveInt(process.env.TRIAGE_BATCH_MAX_WAIT_MINUTES, DEFAULT_TRIAGE_BATCH_MAX_WAIT_MINUTES)
+    };
+  }
 
-  if (!isReanalyze && !claudeApiKey) {
-    logger.error('エラー: CLAUDE_API_KEY が設定されていません');
-    logger.error('.envファイルを確認してください');
+  // watchモードの設定
+  const watchConfig: WatchConfig = {
+    intervalSeconds: process.env.WATCH_INTERVAL_SECONDS
+      ? parsePositiveInt(process.env.WATCH_INTERVAL_SECONDS, 0) || null
+      : DEFAULT_WATCH_CONFIG.intervalSeconds,
+    analyze: process.env.WATCH_ANALYZE === 'true',
+    analyzeBatchSize: parsePositiveInt(process.env.WATCH_ANALYZE_BATCH_SIZE, DEFAULT_WATCH_CONFIG.analyzeBatchSize) || 1,
+  };
+
+  if (isWatch && sourceType !== 'chatwork') {
+    logger.error('エラー: watchモードはChatworkのみ対応しています（Slackエクスポートは静的なファイルのため）');
     process.exit(1);
   }
 
-  // 警告を収集
-  const allWarnings: string[] = [];
-  const cacheManager = new MessageCacheManager();
-  const speakerMapManager = new SpeakerMapManager();
-  const teamProfileManager = !isReanalyze ? new TeamProfileManager(teamProfilesPath) : null;
+  if (providerName === 'openai' && (claudeApiMode === 'batch' || isSubmitOnly || isResume)) {
+    logger.error('エラー: ANALYSIS_PROVIDER=openai ではBatch API（CLAUDE_API_MODE=batch / --submit-only / collect）を使用できません');
+    process.exit(1);
+  }
 
-  try {
-    let knowledgeItems: AnalyzedMessage[];
-    let usedModel = '';
+  if (triageConfig && providerName === 'openai' && (!triageConfig.model || triageConfig.apiMode === 'batch')) {
+    logger.error('エラー: ANALYSIS_PROVIDER=openai でトリアージを行う場合は TRIAGE_MODEL を設定し、TRIAGE_API_MODE=realtime にしてください');
+    process.exit(1);
+  }
 
-    if (isReanalyze) {
-      // === 再出力モード: キャッシュから分析結果を読み込み ===
-      logger.info('[1/3] 分析結果キャッシュを読み込み中...\n');
-      await cacheManager.showAnalysisStats(roomId);
+  if (isSubmitOnly && claudeApiMode !== 'batch') {
+    logger.error('エラー: --submit-only は CLAUDE_API_MODE=batch の場合のみ使用できます');
+    process.exit(1);
+  }
 
-      const cachedResults = await cacheManager.loadAnalysisResults(roomId);
+  // reanalyzeモード（Batchの回収を除く）・分析なしのwatchモード・dry-runではAPIの設定は不要
+  const needsClaude = (!isReanalyze || isResume) && !(isWatch && !watchConfig.analyze) && !isDryRun;
+  if (needsClaude && providerName === 'anthropic' && !claudeApiKey) {
+    logger.error('エラー: CLAUDE_API_KEY が設定されていません');
+    logger.error('.envファイルを確認してください');
+    process.exit(1);
+  }
+  if (needsClaude && providerName === 'openai' && (!openaiBaseUrl || !openaiModel)) {
+    logger.error('エラー: ANALYSIS_PROVIDER=openai の場合は OPENAI_BASE_URL と OPENAI_MODEL を設定してください');
+    logger.error('.envファイルを確認してください');
+    process.exit(1);
+  }
 
-      if (cachedResults.length === 0) {
-        logger.info('分析結果のキャッシュがありません。先に通常モードで実行してください。');
-        return;
-      }
+  let source: MessageSource;
+  let chatworkClient: ChatworkClient | null = null;
+  let roomIds: string[];
+
+  if (sourceType === 'slack') {
+    // === Slackエクスポート ===
+    const slackExportPath = process.env.SLACK_EXPORT_PATH;
+    if (!slackExportPath) {
+      logger.error('エラー: SLACK_EXPORT_PATH が設定されていません');
+      logger.error('.envファイルを確認してください');
+      process.exit(1);
+    }
 
-      logger.info(`キャッシュから${cachedResults.length}件の分析結果を読み込み\n`);
+    const slackSource = new SlackExportSource(slackExportPath, process.env.SLACK_WORKSPACE_URL);
+    source = slackSource;
+    try {
+      roomIds = await discoverSlackChannelIds(slackSource, parsePatternList(process.env.SLACK_CHANNELS));
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logger.error(`Slackエクスポートの読み込みに失敗しました: ${errorMsg}`, error);
+      process.exit(1);
+    }
+  } else {
+    // === Chatwork API ===
+    if (!chatworkToken || (explicitRoomIds.length === 0 && roomIncludePatterns.length === 0)) {
+      logger.error('エラー: CHATWORK_API_TOKEN, CHATWORK_ROOM_IDS（または CHATWORK_ROOM_ID / CHATWORK_ROOM_INCLUDE）が設定されていません');
+      logger.error('.envファイルを確認してください');
+      process.exit(1);
+    }
 
-      // 期間フィルタ（キャッシュの分析結果にも適用）
-      let filteredResults = cachedResults;
-      if (extractFromRaw) {
-        const beforeCount = filteredResults.length;
-        filteredResults = filterAnalysisResultsByDate(filteredResults, extractFromRaw);
-        logger.info(`期間フィルタ適用: ${beforeCount}件 → ${filteredResults.length}件`);
+    chatworkClient = new ChatworkClient(chatworkToken);
+    source = new ChatworkSource(chatworkClient);
+
+    // CHATWORK_ROOM_INCLUDE が設定されていればルーム一覧から対象ルームを自動選択
+    roomIds = explicitRoomIds;
+    if (roomIncludePatterns.length > 0) {
+      try {
+        roomIds = await discoverRoomIds(chatworkClient, explicitRoomIds, {
+          includePatterns: roomIncludePatterns,
+          excludePatterns: roomExcludePatterns,
+          types: roomTypes
+        });
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logger.error(`ルーム一覧の取得に失敗しました: ${errorMsg}`, error);
+        process.exit(1);
       }
+    }
+  }
 
-      // 汎用性フィルタ
-      logger.info(`汎用性フィルタ: ${outputVersatility.join(', ')} のみ出力`);
-      knowledgeItems = filteredResults.filter(
-          item => item.versatility !== 'exclude'
-              && item.category !== '除外対象'
-              && outputVersatility.includes(item.versatility)
-      );
+  if (roomIds.length === 0) {
+    logger.info(sourceType === 'slack'
+      ? '対象チャンネルがありません。SLACK_CHANNELS を確認してください。'
+      : '対象ルームがありません。CHATWORK_ROOM_INCLUDE / CHATWORK_ROOM_EXCLUDE を確認してください。');
+    return;
+  }
 
-      // キャッシュからモデル情報を取得
-      const analysisCache = await cacheManager.loadAnalysisCache(roomId);
-      usedModel = analysisCache?.model || claudeModel || '(不明)';
-      logger.info(`分析モデル: ${usedModel}`);
-      logger.info(`フィルタ後: ${knowledgeItems.length}件が形式知化対象\n`);
+  logger.info(`対象ルーム数: ${roomIds.length}件 (${roomIds.join(', ')})\n`);
+
+  // プロバイダー・Analyzerは全ルームで共有（プロンプト・フィードバックの読み込みは1回だけ）
+  let provider: AnalysisProvider | null = null;
+  const getProvider = (): AnalysisProvider => {
+    if (!provider) {
+      // dry-runではAPIを呼び出さないため、APIキーがなくてもリクエストの作成に使う
+      provider = providerName === 'openai'
+        ? new OpenAICompatibleProvider({
+            baseUrl: openaiBaseUrl ?? '',
+            apiKey: process.env.OPENAI_API_KEY,
+            timeoutSeconds: parsePositiveInt(process.env.OPENAI_TIMEOUT_SECONDS, DEFAULT_OPENAI_TIMEOUT_SECONDS) || DEFAULT_OPENAI_TIMEOUT_SECONDS
+          })
+        : new AnthropicProvider(claudeApiKey ?? '');
+      logger.info(`分析に使うAPI: ${provider.label}`);
+    }
+    return provider;
+  };
 
-    } else {
-      // === 通常モード: 取得 → 分析 → 出力 ===
-      logger.info('[1/5] Chatworkメッセージ取得中...\n');
-      const chatworkClient = new ChatworkClient(chatworkToken);
+  let analyzer: ClaudeAnalyzer | null = null;
+  const getAnalyzer = (): ClaudeAnalyzer => {
+    if (!analyzer) {
+      analyzer = new ClaudeAnalyzer(getProvider(), {
+        promptTemplatePath,
+        windowPromptTemplatePath,
+        feedbackPath,
+        model: analysisModel,
+        apiMode: claudeApiMode,
+        outputMode,
+        maxRepairAttempts,
+        batchSubmitOnly: isSubmitOnly
+      });
+    }
+    return analyzer;
+  };
 
-      // ルーム情報を取得
-      const roomInfo = await chatworkClient.getRoomInfo(roomId);
-      logger.info(`対象ルーム: ${roomInfo.name} (ID: ${roomId})\n`);
+  let triage: MessageTriage | null = null;
+  const getTriage = (): MessageTriage => {
+    if (!triage) {
+      triage = new MessageTriage(getProvider(), triageConfig!);
+    }
+    return triage;
+  };
 
-      const fetchResult = await chatworkClient.getAllMessages(roomId, maxMessages);
-      let messages = fetchResult.messages;
+  // 出力ファイル名のタイムスタンプ（全ルーム・統合出力で共通）
+  const timestamp = new Date().toISOString()
+      .replace(/:/g, '-')
+      .replace(/\..+/, '')
+      .replace('T', '_');
+
+  const ctx: RunContext = {
+    isReanalyze,
+    isResume,
+    isSubmitOnly,
+    isDryRun,
+    source,
+    chatworkClient,
+    cacheManager: new MessageCacheManager(),
+    speakerMapManager: new SpeakerMapManager(),
+    threadMapManager: new ThreadMapManager(),
+    batchJobManager: new BatchJobManager(),
+    runHistoryManager: new RunHistoryManager(),
+    teamProfileManager: !isReanalyze ? new TeamProfileManager(teamProfilesPath) : null,
+    getAnalyzer,
+    getTriage,
+    triageConfig,
+    triageCacheManager: new TriageCacheManager(),
+    outputDir,
+    timestamp,
+    maxMessages,
+    claudeModel: analysisModel,
+    claudeApiMode,
+    maxAnalysisAttempts,
+    outputVersatility,
+    consolidateConfig,
+    extractFromRaw,
+    filterConfig,
+    contextMode,
+    contextSize,
+    analysisUnit,
+    windowConfig,
+    includeTasks,
+    includeFiles
+  };
 
-      // 警告を収集
-      allWarnings.push(...fetchResult.warnings);
+  if (isWatch) {
+    await runWatch(roomIds, ctx, watchConfig);
+    return;
+  }
 
-      logger.info(`取得完了: ${messages.length}件\n`);
+  // ルームごとに処理（1ルームの失敗で全体を止めない）
+  const results: RoomRunResult[] = [];
+  for (const [index, roomId] of roomIds.entries()) {
+    logger.info(`\n##### ルーム ${index + 1}/${roomIds.length}: ${roomId} #####\n`);
+    try {
+      results.push(await processRoom(roomId, ctx));
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logger.error(`\nルーム ${roomId} の処理中にエラーが発生しました: ${errorMsg}`, error);
+      results.push({
+        roomId,
+        status: 'failed',
+        knowledgeItems: [],
+        model: '',
+        outputFiles: [],
+        warnings: [],
+        gaps: [],
+        usage: [],
+        error: errorMsg
+      });
+    }
+  }
 
-      // 期間フィルタ
-      if (extractFromRaw) {
-        const { messages: filtered, description } = chatworkClient.filterByExtractFrom(messages, extractFromRaw);
-        messages = filtered;
-        logger.info(`期間フィルタ適用（${description}）: ${messages.length}件\n`);
+  // === 全ルーム統合出力（複数ルーム時のみ） ===
+  let combinedJsonPath: string | null = null;
+  const succeededRooms = results.filter(r => r.status === 'success');
+  if (roomIds.length > 1 && succeededRooms.length > 0) {
+    try {
+      logger.info('\n=== 全ルーム統合出力（匿名化） ===\n');
+      const roomKnowledge: RoomKnowledge[] = succeededRooms.map(r => ({
+        roomId: r.roomId,
+        roomName: r.roomName,
+        model: r.model,
+        gaps: r.gaps,
+        items: r.knowledgeItems
+      }));
+      // ルームをまたいで繰り返し登場する同じ知見も1件にまとめる（言及の回数はルームごとの分を合算）
+      let combinedItems: CombinedKnowledgeItem[] = succeededRooms.flatMap(r => r.knowledgeItems.map(item => ({
+        ...(ctx.consolidateConfig ? assignMentionRoom(item, r.roomId) : item),
+        room_id: r.roomId
+      })));
+      if (ctx.consolidateConfig) {
+        const beforeCount = combinedItems.length;
+        combinedItems = consolidateKnowledge(combinedItems, ctx.consolidateConfig);
+        if (combinedItems.length < beforeCount) {
+          logger.info(`ルームをまたいだ重複の統合: ${beforeCount}件 → ${combinedItems.length}件\n`);
+        }
       }
 
-      if (messages.length === 0) {
-        logger.info('メッセージがありません。処理を終了します。');
-        return;
+      combinedJsonPath = join(outputDir, 'external', `knowledge_all_${timestamp}.json`);
+      const jsonFormatter = new JSONFormatter();
+      await jsonFormatter.formatCombined(roomKnowledge, combinedItems, combinedJsonPath, {
+        anonymize: true
+      }, ctx.speakerMapManager);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      logger.error(`統合出力でエラーが発生しました: ${errorMsg}`, error);
+      combinedJsonPath = null;
+    }
+  }
+
+  // === ルーム別結果サマリー ===
+  logger.info('\n=== ルーム別結果 ===\n');
+  for (const result of results) {
+    const label = result.roomName ? `${result.roomName} (ID: ${result.roomId})` : `ID: ${result.roomId}`;
+    const gapInfo = result.gaps.length > 0 ? ` ⚠️ 欠落の可能性がある期間 ${result.gaps.length}件` : '';
+    if (result.preview) {
+      logger.info(`  📝 ${label}: ${result.preview.requests}リクエスト（メッセージ${result.preview.messages}件）`);
+    } else if (result.status === 'success') {
+      logger.info(`  ✅ ${label}: ${result.knowledgeItems.length}件${gapInfo}`);
+    } else if (result.status === 'empty') {
+      logger.info(`  ➖ ${label}: 出力対象なし`);
+    } else {
+      logger.info(`  ❌ ${label}: 失敗 (${result.error})`);
+    }
+    if (result.dropped) {
+      logger.info(`     除外: ${formatDropCounts(result.dropped, ctx.triageConfig !== null)}`);
+    }
+    if (result.usage.length > 0) {
+      logger.info(`     API使用量: ${formatUsageRecords(result.usage)}`);
+    }
+  }
+
+  const allUsage = results.flatMap(r => r.usage);
+  if (allUsage.length > 0) {
+    logger.info(`\nAPI使用量（合計）: ${formatUsageRecords(allUsage)}`);
+    logger.info('  ※ 料金は公開価格からの概算です（履歴: cache/run_history.json）');
+  }
+
+  if (isDryRun) {
+    showDryRunSummary(results, ctx.getAnalyzer().getModel(), claudeApiMode);
+  }
+
+  if (combinedJsonPath) {
+    const totalItems = succeededRooms.reduce((sum, r) => sum + r.knowledgeItems.length, 0);
+    logger.info(`\n全ルーム統合出力: ${totalItems}件`);
+    logger.info(`  - ${combinedJsonPath}`);
+  }
+
+  // 警告があれば表示
+  const roomsWithWarnings = results.filter(r => r.warnings.length > 0);
+  if (roomsWithWarnings.length > 0) {
+    logger.info('\n=== 警告 ===\n');
+    for (const result of roomsWithWarnings) {
+      for (const warning of result.warnings) {
+        logger.info(`[ルーム ${result.roomId}] ${warning}`);
+        logger.info('');
       }
+    }
+  }
+
+  // 1ルームでも失敗していれば終了コードで通知（cron等での検知用）
+  if (results.some(r => r.status === 'failed')) {
+    process.exitCode = 1;
+  }
+}
 
-      // 未分析メッセージを抽出
-      const analyzedIds = await cacheManager.getAnalyzedIds(roomId);
-      const unanalyzedMessages = cacheManager.getUnanalyzedMessages(messages, analyzedIds);
-
-      logger.info(`未分析メッセージ: ${unanalyzedMessages.length}件\n`);
-
-      if (unanalyzedMessages.length > 0) {
-        const roleResolver = teamProfileManager!.hasProfiles()
-          ? (accountId: number) => teamProfileManager!.resolveRole(accountId)
-          : undefined;
-
-        // メッセージの事前フィルタリング（知見が含まれない可能性が高いものを除外）
-        logger.info('事前フィルタリング中...');
-        const { filtered: filteredMessages, stats } = filterMessages(unanalyzedMessages, filterConfig);
-        logger.info(`  - 対象: ${stats.total}件`);
-        logger.info(`  - スキップ: ${stats.skipped}件 (短すぎる/定型文)`);
-        logger.info(`  - 切り詰め: ${stats.truncated}件 (${filterConfig.maxLength}文字超)`);
-        logger.info(`  - API送信: ${filteredMessages.length}件\n`);
-
-        if (stats.skipped > 0) {
-          logger.info('スキップ理由の内訳:');
-          for (const [reason, count] of Object.entries(stats.reasons)) {
-            logger.info(`  - ${reason}: ${count}件`);
-          }
-          logger.info('');
+/**
+ * watchモード: 対象ルームを一定間隔でポーリングしてキャッシュに追記し続ける
+ * 差分取得の100件上限に達する前に取得することで、メッセージの取りこぼしを防ぐ
+ * 出力ファイルは生成しない（通常実行・--reanalyzeで出力する）
+ */
+async function runWatch(roomIds: string[], ctx: RunContext, config: WatchConfig): Promise<void> {
+  const logger = new Logger('Watch');
+  const { source, cacheManager, threadMapManager, extractFromRaw } = ctx;
+
+  // 1サイクルのリクエスト数はルーム数（メッセージ取得のみ）
+  const { intervalSeconds, adjusted } = resolveWatchInterval(roomIds.length, config);
+  if (adjusted) {
+    logger.warn(`WATCH_INTERVAL_SECONDS(${config.intervalSeconds}) はレート制限を超えるため、${intervalSeconds}秒に引き上げます`);
+  }
+  logger.info(`ポーリング間隔: ${intervalSeconds}秒 / 対象ルーム: ${roomIds.length}件`);
+  if (config.analyze) {
+    logger.info(`新規メッセージの分析: 有効（${config.analyzeBatchSize}件ずつ）`);
+    if (ctx.claudeApiMode === 'batch') {
+      logger.warn('Batch APIは結果が返るまで数分〜24時間かかり、その間ポーリングが止まります。watchモードでは CLAUDE_API_MODE=realtime を推奨します');
+    }
+  }
+  logger.info('');
+
+  // Ctrl+C / SIGTERM で現在のサイクル完了後に停止（2回目は即時終了）
+  let stopping = false;
+  let wake: (() => void) | null = null;
+  const stop = () => {
+    if (stopping) {
+      process.exit(130);
+    }
+    stopping = true;
+    logger.info('停止します（現在のサイクルの完了を待っています。もう一度押すと即時終了）');
+    wake?.();
+  };
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  const sleep = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    wake = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+  });
+
+  for (let cycle = 1; !stopping; cycle++) {
+    let newMessages = 0;
+    let updatedMessages = 0;
+    let cachedMessages = 0;
+    let pendingMessages = 0;
+    let analyzedMessages = 0;
+    let failedRooms = 0;
+
+    for (const roomId of roomIds) {
+      if (stopping) break;
+      try {
+        const fetchResult = await source.getAllMessages(roomId, ctx.maxMessages, `${ctx.timestamp}_watch${cycle}`);
+        newMessages += fetchResult.apiMessageCount;
+        updatedMessages += fetchResult.updatedMessageIds.length;
+        for (const warning of fetchResult.warnings) {
+          logger.warn(`[ルーム ${roomId}] ${warning}`);
         }
 
-        // 発言者マッピングを保存（フィルタリング後のメッセージで保存）
-        await speakerMapManager.save(roomId, filteredMessages, roleResolver);
-
-        if (filteredMessages.length > 0) {
-          // Step 2: Claude APIで分析（フィルタリング済みメッセージのみ）
-          logger.info('[2/5] Claude APIで分析中...\n');
-
-          const analyzer = new ClaudeAnalyzer(claudeApiKey!, {
-            promptTemplatePath,
-            feedbackPath,
-            model: claudeModel,
-            apiMode: claudeApiMode
-          });
-          usedModel = analyzer.getModel();
-          logger.info(`使用モデル: ${usedModel}`);
-
-          if (claudeApiMode === 'batch') {
-            logger.info('※ Batch API: 50%割引、処理時間は数分〜24時間\n');
-          } else {
-            logger.info('※ Realtime API: 通常価格、処理時間は数秒〜数分\n');
-          }
-
-          const roleResolver = teamProfileManager!.hasProfiles()
-              ? (accountId: number) => teamProfileManager!.resolveRole(accountId)
-              : undefined;
-          const analyzed = await analyzer.analyze(filteredMessages, roleResolver);
-
-          // 分析したメッセージIDを記録（フィルタリング済みメッセージのみ）
-          const newlyAnalyzedIds = filteredMessages.map(m => m.message_id);
-          await cacheManager.markAsAnalyzed(roomId, newlyAnalyzedIds);
-
-          // 分析結果をキャッシュに保存（モデル情報付き）
-          logger.info('\n[3/5] 分析結果をキャッシュに保存中...\n');
-          await cacheManager.saveAnalysisResults(roomId, analyzed, usedModel);
+        const messageCache = await cacheManager.load(roomId);
+        const allMessages = messageCache?.messages ?? fetchResult.messages;
+        cachedMessages += allMessages.length;
+        await threadMapManager.save(roomId, allMessages);
+
+        let messages = fetchResult.messages;
+        if (extractFromRaw) {
+          messages = filterMessagesByExtractFrom(messages, extractFromRaw).messages;
+        }
+
+        if (config.analyze) {
+          const analysis = await analyzeUnanalyzedMessages(roomId, messages, allMessages, null, ctx, config.analyzeBatchSize);
+          pendingMessages += analysis.pendingCount - analysis.analyzedCount;
+          analyzedMessages += analysis.analyzedCount;
         } else {
-          logger.info('フィルタリング後、新規の分析対象メッセージはありません。キャッシュがあれば出力します。\n');
+          const analyzedIds = await cacheManager.getAnalyzedIds(roomId);
+          pendingMessages += cacheManager.getUnanalyzedMessages(messages, analyzedIds).length;
         }
-      } else {
-        logger.info('新しく分析するメッセージはありません。キャッシュがあれば出力します。\n');
+      } catch (error) {
+        // 1ルームの失敗でwatchを止めない（次のサイクルで再試行）
+        failedRooms++;
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        logger.error(`ルーム ${roomId} の取得に失敗しました: ${errorMsg}`, error);
       }
+    }
+
+    logger.info(formatCycleStats({
+      cycle,
+      newMessages,
+      updatedMessages,
+      cachedMessages,
+      pendingMessages,
+      analyzedMessages,
+      failedRooms,
+      rateLimit: ctx.chatworkClient?.getRateLimitState() ?? { limit: null, remaining: null, resetAt: null },
+      nextIntervalSeconds: intervalSeconds
+    }));
+
+    if (!stopping) {
+      await sleep(intervalSeconds * 1000);
+    }
+  }
 
-      // 既存キャッシュから分析結果を読み込み
-      let allResults = await cacheManager.loadAnalysisResults(roomId);
+  process.off('SIGINT', stop);
+  process.off('SIGTERM', stop);
+  logger.info('watchモードを停止しました');
+}
 
-      // 期間フィルタ（出力対象にも適用）
-      if (extractFromRaw) {
-        const beforeCount = allResults.length;
-        allResults = filterAnalysisResultsByDate(allResults, extractFromRaw);
-        logger.info(`期間フィルタ適用（出力対象）: ${beforeCount}件 → ${allResults.length}件`);
-      }
+/**
+ * ルーム一覧（GET /rooms）から対象ルームを選択し、明示指定のルームIDとマージ
+ */
+async function discoverRoomIds(
+  chatworkClient: ChatworkClient,
+  explicitRoomIds: string[],
+  selector: Parameters<typeof selectRooms>[1]
+): Promise<string[]> {
+  const logger = new Logger('Main');
+
+  logger.info('ルーム一覧から対象ルームを検索中...');
+  const rooms = await chatworkClient.getRooms();
+  const selected = selectRooms(rooms, selector);
+
+  logger.info(`  - 参加ルーム: ${rooms.length}件`);
+  logger.info(`  - 条件に一致: ${selected.length}件`);
+  for (const room of selected) {
+    logger.info(`    - ${room.name} (ID: ${room.room_id})`);
+  }
+  logger.info('');
+
+  const discoveredIds = selected.map(room => String(room.room_id));
+  return [...new Set([...explicitRoomIds, ...discoveredIds])];
+}
+
+/**
+ * Slackエクスポートのチャンネル一覧から対象チャンネルを選択
+ * パターンはチャンネルIDの完全一致、またはチャンネル名のワイルドカード（未指定は全チャンネル）
+ */
+async function discoverSlackChannelIds(source: SlackExportSource, patterns: string[]): Promise<string[]> {
+  const logger = new Logger('Main');
+
+  const channels = await source.listChannels();
+  const selected = patterns.length === 0
+    ? channels
+    : channels.filter(channel => patterns.some(p => channel.id === p || matchesWildcard(channel.name, p)));
+
+  logger.info(`  - エクスポート内のチャンネル: ${channels.length}件`);
+  logger.info(`  - 対象: ${selected.length}件`);
+  for (const channel of selected) {
+    logger.info(`    - ${channel.name} (ID: ${channel.id})`);
+  }
+  logger.info('');
+
+  return selected.map(channel => channel.id);
+}
+
+/**
+ * 1ルーム分の処理（取得 → 分析 → 出力、または再出力）
+ */
+async function processRoom(roomId: string, ctx: RunContext): Promise<RoomRunResult> {
+  const logger = new Logger('Main');
+  const { isReanalyze, cacheManager, speakerMapManager, threadMapManager, source, chatworkClient, extractFromRaw, outputVersatility } = ctx;
+
+  // 警告を収集
+  const warnings: string[] = [];
+  const usage: RunUsageRecord[] = [];
+  let dropped: StageDropCounts | undefined;
+  let knowledgeItems: AnalyzedMessage[];
+  let usedModel = '';
+
+  // ルーム情報を取得（表示・出力ファイル名生成用）
+  const roomInfo = await source.getRoomInfo(roomId);
+  logger.info(`対象ルーム: ${roomInfo.name} (ID: ${roomId})\n`);
+
+  if (ctx.isResume) {
+    usage.push(...await collectPendingBatches(roomId, ctx));
+  }
+
+  if (isReanalyze) {
+    // === 再出力モード: キャッシュから分析結果を読み込み ===
+    logger.info('[1/3] 分析結果キャッシュを読み込み中...\n');
+    await cacheManager.showAnalysisStats(roomId);
+
+    const cachedResults = await cacheManager.loadAnalysisResults(roomId);
+
+    if (cachedResults.length === 0) {
+      logger.info('分析結果のキャッシュがありません。先に通常モードで実行してください。');
+      return emptyResult(roomId, roomInfo.name, usedModel, warnings, await cacheManager.getGaps(roomId), usage);
+    }
+
+    logger.info(`キャッシュから${cachedResults.length}件の分析結果を読み込み\n`);
+
+    // 期間フィルタ（キャッシュの分析結果にも適用）
+    let filteredResults = cachedResults;
+    if (extractFromRaw) {
+      const beforeCount = filteredResults.length;
+      filteredResults = filterAnalysisResultsByDate(filteredResults, extractFromRaw);
+      logger.info(`期間フィルタ適用: ${beforeCount}件 → ${filteredResults.length}件`);
+    }
+
+    // 汎用性フィルタ
+    logger.info(`汎用性フィルタ: ${outputVersatility.join(', ')} のみ出力`);
+    knowledgeItems = filteredResults.filter(
+        item => item.versatility !== 'exclude'
+            && item.category !== '除外対象'
+            && outputVersatility.includes(item.versatility)
+    );
+
+    // キャッシュからモデル情報を取得
+    const analysisCache = await cacheManager.loadAnalysisCache(roomId);
+    usedModel = analysisCache?.model || ctx.claudeModel || '(不明)';
+    logger.info(`分析モデル: ${usedModel}`);
+    logger.info(`フィルタ後: ${knowledgeItems.length}件が形式知化対象\n`);
+
+  } else {
+    // === 通常モード: 取得 → 分析 → 出力 ===
+    logger.info(`[1/5] ${source.label}メッセージ取得中...\n`);
+
+    const fetchResult = await source.getAllMessages(roomId, ctx.maxMessages, ctx.timestamp);
+    let messages = fetchResult.messages;
+
+    // 警告を収集
+    warnings.push(...fetchResult.warnings);
 
-      logger.info(`汎用性フィルタ: ${outputVersatility.join(', ')} のみ出力`);
-      logger.debug(`フィルタリング前: ${allResults.length}件`);
+    logger.info(`取得完了: ${messages.length}件\n`);
+    if (fetchResult.updatedMessageIds.length > 0) {
+      logger.info(`編集されたメッセージ: ${fetchResult.updatedMessageIds.length}件（再分析します）\n`);
+    }
+
+    // 返信・引用のスレッド構造を保存（引用元の照合のためキャッシュ全体から構築）
+    const messageCache = await cacheManager.load(roomId);
+    await threadMapManager.save(roomId, messageCache?.messages ?? messages);
+
+    // タスクを取得し、メッセージと同じパイプライン（期間フィルタ・事前フィルタ・分析）に流す
+    if (ctx.includeTasks && chatworkClient) {
+      const tasks = await chatworkClient.getAllTasks(roomId);
+      const messageById = new Map((messageCache?.messages ?? messages).map(m => [m.message_id, m]));
+      const taskMessages = tasks.map(task => taskToMessage(task, messageById.get(task.message_id)));
+      messages = [...messages, ...taskMessages];
+      logger.info(`タスク: ${taskMessages.length}件を分析対象に追加\n`);
+    }
 
-      // デバッグ: versatility分布を表示
-      const versatilityDist = allResults.reduce((acc, item) => {
-        acc[item.versatility] = (acc[item.versatility] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-      logger.debug(`versatility分布:`, versatilityDist);
+    // 添付ファイルのメタデータ（[download:FILE_ID] の名前解決用）
+    let fileMap: Map<string, ChatworkFile> | null = null;
+    if (ctx.includeFiles && chatworkClient) {
+      const files = await chatworkClient.getAllFiles(roomId);
+      fileMap = new Map(files.map(file => [String(file.file_id), file]));
+    }
+
+    // 期間フィルタ
+    if (extractFromRaw) {
+      const { messages: filtered, description } = filterMessagesByExtractFrom(messages, extractFromRaw);
+      messages = filtered;
+      logger.info(`期間フィルタ適用（${description}）: ${messages.length}件\n`);
+    }
 
-      knowledgeItems = allResults.filter(
-          item => item.versatility !== 'exclude'
-              && item.category !== '除外対象'
-              && outputVersatility.includes(item.versatility)
+    if (messages.length === 0) {
+      logger.info('メッセージがありません。このルームの処理を終了します。');
+      return emptyResult(roomId, roomInfo.name, usedModel, warnings, await cacheManager.getGaps(roomId), usage);
+    }
+
+    // 未分析メッセージを分析してキャッシュに保存
+    const analysis = await analyzeUnanalyzedMessages(roomId, messages, messageCache?.messages ?? messages, fileMap, ctx);
+    usage.push(...analysis.triageUsage);
+    if (analysis.usage) {
+      usage.push(analysis.usage);
+    }
+    dropped = analysis.dropped;
+    if (analysis.retryExhaustedCount > 0) {
+      warnings.push(
+        `分析に${ctx.maxAnalysisAttempts}回失敗したメッセージが${analysis.retryExhaustedCount}件あります（npm run stats で確認できます）。` +
+        `再試行する場合は ANALYSIS_MAX_ATTEMPTS を増やしてください`
       );
+    }
+    if (ctx.isDryRun) {
+      // 知見の出力は行わない（キャッシュの分析結果も変わらないため）
+      const gaps = await cacheManager.getGaps(roomId);
+      const preview = analysis.preview ?? { requests: 0, messages: 0, estimatedUsage: emptyUsage(), maxOutputTokens: 0, files: [] };
+      return { ...emptyResult(roomId, roomInfo.name, usedModel, warnings, gaps, usage), dropped, preview };
+    }
+    if (analysis.model) {
+      usedModel = analysis.model;
+    } else if (analysis.unanalyzedCount === 0) {
+      logger.info('新しく分析するメッセージはありません。キャッシュがあれば出力します。\n');
+    }
 
-      logger.debug(`フィルタリング後: ${knowledgeItems.length}件`);
+    // 既存キャッシュから分析結果を読み込み
+    let allResults = await cacheManager.loadAnalysisResults(roomId);
 
-      // usedModelがまだ設定されていない場合（新規分析なし）、キャッシュから取得
-      if (!usedModel) {
-        const analysisCache = await cacheManager.loadAnalysisCache(roomId);
-        usedModel = analysisCache?.model || claudeModel || '(不明)';
-      }
+    // 期間フィルタ（出力対象にも適用）
+    if (extractFromRaw) {
+      const beforeCount = allResults.length;
+      allResults = filterAnalysisResultsByDate(allResults, extractFromRaw);
+      logger.info(`期間フィルタ適用（出力対象）: ${beforeCount}件 → ${allResults.length}件`);
+    }
+
+    logger.info(`汎用性フィルタ: ${outputVersatility.join(', ')} のみ出力`);
+    logger.debug(`フィルタリング前: ${allResults.length}件`);
+
+    // デバッグ: versatility分布を表示
+    const versatilityDist = allResults.reduce((acc, item) => {
+      acc[item.versatility] = (acc[item.versatility] || 0) + 1;
+      return acc;
+    }, {} as Record<string, number>);
+    logger.debug(`versatility分布:`, versatilityDist);
 
-      logger.info(`全体で ${knowledgeItems.length}件が形式知化対象\n`);
+    knowledgeItems = allResults.filter(
+        item => item.versatility !== 'exclude'
+            && item.category !== '除外対象'
+            && outputVersatility.includes(item.versatility)
+    );
+
+    logger.debug(`フィルタリング後: ${knowledgeItems.length}件`);
+
+    // usedModelがまだ設定されていない場合（新規分析なし）、キャッシュから取得
+    if (!usedModel) {
+      const analysisCache = await cacheManager.loadAnalysisCache(roomId);
+      usedModel = analysisCache?.model || ctx.claudeModel || '(不明)';
     }
 
-    if (knowledgeItems.length === 0) {
-      logger.info('出力対象の知見がありません。');
-      return;
+    logger.info(`全体で ${knowledgeItems.length}件が形式知化対象\n`);
+  }
+
+  // 繰り返し登場する同じ知見を1件にまとめる（分析結果のキャッシュは変更しない）
+  if (ctx.consolidateConfig && knowledgeItems.length > 1) {
+    const beforeCount = knowledgeItems.length;
+    knowledgeItems = consolidateKnowledge(knowledgeItems, ctx.consolidateConfig);
+    if (knowledgeItems.length < beforeCount) {
+      logger.info(`重複した知見の統合: ${beforeCount}件 → ${knowledgeItems.length}件\n`);
     }
+  }
 
-    // ルーム情報を取得（出力ファイル名生成用）
-    const chatworkClient = new ChatworkClient(chatworkToken);
-    const roomInfo = await chatworkClient.getRoomInfo(roomId);
+  // 欠落期間（出力に「この期間の知見は含まれていない」と明記する）
+  const gaps = await cacheManager.getGaps(roomId);
+  if (gaps.length > 0) {
+    logger.warn(`メッセージを取得できていない可能性がある期間: ${gaps.length}件（出力に明記します）`);
+  }
 
-    // 出力ファイル名生成
-    const timestamp = new Date().toISOString()
-        .replace(/:/g, '-')
-        .replace(/\..+/, '')
-        .replace('T', '_');
-    const safeRoomName = roomInfo.name
-        .replace(/[\/\\:*?"<>|]/g, '')
-        .replace(/\s+/g, '_')
-        .substring(0, 50);
-    const baseFilename = `knowledge_${roomId}_${safeRoomName}_${timestamp}`;
+  if (knowledgeItems.length === 0) {
+    logger.info('出力対象の知見がありません。');
+    return { ...emptyResult(roomId, roomInfo.name, usedModel, warnings, gaps, usage), dropped };
+  }
 
-    // フォーマットオプション
-    const formatOptions = {
-      roomName: roomInfo.name,
-      roomId: roomId,
-      model: usedModel
-    };
+  // 出力ファイル名生成
+  const safeRoomName = roomInfo.name
+      .replace(/[\/\\:*?"<>|]/g, '')
+      .replace(/\s+/g, '_')
+      .substring(0, 50);
+  const baseFilename = `knowledge_${roomId}_${safeRoomName}_${ctx.timestamp}`;
+
+  // フォーマットオプション
+  const formatOptions = {
+    roomName: roomInfo.name,
+    roomId: roomId,
+    model: usedModel,
+    messageUrl: (targetRoomId: string, messageId: string) => source.getMessageUrl(targetRoomId, messageId),
+    gaps
+  };
 
-    const stepPrefix = isReanalyze ? '[2/3]' : '[4/5]';
-    const stepPrefix2 = isReanalyze ? '[3/3]' : '[5/5]';
-
-    // === 内部用Markdown出力（発言者あり） ===
-    logger.info(`${stepPrefix} 内部用Markdown出力中（発言者あり）...\n`);
-    const internalDir = join(outputDir, 'internal');
-    const internalMdPath = join(internalDir, `${baseFilename}.md`);
-    const markdownFormatter = new MarkdownFormatter();
-    await markdownFormatter.format(knowledgeItems, internalMdPath, {
-      ...formatOptions,
-      anonymize: false
-    }, speakerMapManager, roomId, cacheManager);
-
-    // === 外部用Markdown出力（匿名化） ===
-    logger.info(`\n${stepPrefix2} 外部用出力中（匿名化）...\n`);
-    const externalDir = join(outputDir, 'external');
-    const externalMdPath = join(externalDir, `${baseFilename}.md`);
-    await markdownFormatter.format(knowledgeItems, externalMdPath, {
-      ...formatOptions,
-      anonymize: true
-    }, speakerMapManager, roomId);
-
-    // === 外部用JSON出力（匿名化） ===
-    const externalJsonPath = join(externalDir, `${baseFilename}.json`);
-    const jsonFormatter = new JSONFormatter();
-    await jsonFormatter.format(knowledgeItems, externalJsonPath, {
-      ...formatOptions,
-      anonymize: true
-    }, speakerMapManager, roomId);
-
-    // 完了
-    logger.info('\n=== 完了 ===');
-    logger.info(`\n出力ファイル:`);
-    logger.info(`  [内部用・発言者あり]`);
-    logger.info(`  - ${internalMdPath}`);
-    logger.info(`  [外部用・匿名化済み]`);
-    logger.info(`  - ${externalMdPath}`);
-    logger.info(`  - ${externalJsonPath}`);
-    logger.info(`\n形式知化された知見: ${knowledgeItems.length}件`);
-
-    // カテゴリ別集計
-    const categoryCount: Record<string, number> = {};
-    for (const item of knowledgeItems) {
-      categoryCount[item.category] = (categoryCount[item.category] || 0) + 1;
-    }
-
-    logger.info('\nカテゴリ別内訳:');
-    for (const [category, count] of Object.entries(categoryCount)) {
-      logger.info(`  ${category}: ${count}件`);
-    }
-
-    // 汎用性レベル別集計
-    const versatilityCount: Record<string, number> = {};
-    for (const item of knowledgeItems) {
-      versatilityCount[item.versatility] = (versatilityCount[item.versatility] || 0) + 1;
-    }
-
-    logger.info('\n汎用性レベル別内訳:');
-    for (const [level, count] of Object.entries(versatilityCount)) {
-      logger.info(`  ${level}: ${count}件`);
-    }
-
-    // 警告があれば表示
-    if (allWarnings.length > 0) {
-      logger.info('\n=== 警告 ===\n');
-      for (const warning of allWarnings) {
-        logger.info(warning);
-        logger.info('');
+  const stepPrefix = isReanalyze ? '[2/3]' : '[4/5]';
+  const stepPrefix2 = isReanalyze ? '[3/3]' : '[5/5]';
+
+  // === 内部用Markdown出力（発言者あり） ===
+  logger.info(`${stepPrefix} 内部用Markdown出力中（発言者あり）...\n`);
+  const internalDir = join(ctx.outputDir, 'internal');
+  const internalMdPath = join(internalDir, `${baseFilename}.md`);
+  const markdownFormatter = new MarkdownFormatter();
+  await markdownFormatter.format(knowledgeItems, internalMdPath, {
+    ...formatOptions,
+    anonymize: false
+  }, speakerMapManager, roomId, cacheManager, threadMapManager);
+
+  // === 外部用Markdown出力（匿名化） ===
+  logger.info(`\n${stepPrefix2} 外部用出力中（匿名化）...\n`);
+  const externalDir = join(ctx.outputDir, 'external');
+  const externalMdPath = join(externalDir, `${baseFilename}.md`);
+  await markdownFormatter.format(knowledgeItems, externalMdPath, {
+    ...formatOptions,
+    anonymize: true
+  }, speakerMapManager, roomId);
+
+  // === 外部用JSON出力（匿名化） ===
+  const externalJsonPath = join(externalDir, `${baseFilename}.json`);
+  const jsonFormatter = new JSONFormatter();
+  await jsonFormatter.format(knowledgeItems, externalJsonPath, {
+    ...formatOptions,
+    anonymize: true
+  }, speakerMapManager, roomId);
+
+  // 完了
+  logger.info('\n=== 完了 ===');
+  logger.info(`\n出力ファイル:`);
+  logger.info(`  [内部用・発言者あり]`);
+  logger.info(`  - ${internalMdPath}`);
+  logger.info(`  [外部用・匿名化済み]`);
+  logger.info(`  - ${externalMdPath}`);
+  logger.info(`  - ${externalJsonPath}`);
+  logger.info(`\n形式知化された知見: ${knowledgeItems.length}件`);
+
+  // カテゴリ別集計
+  const categoryCount: Record<string, number> = {};
+  for (const item of knowledgeItems) {
+    categoryCount[item.category] = (categoryCount[item.category] || 0) + 1;
+  }
+
+  logger.info('\nカテゴリ別内訳:');
+  for (const [category, count] of Object.entries(categoryCount)) {
+    logger.info(`  ${category}: ${count}件`);
+  }
+
+  // 汎用性レベル別集計
+  const versatilityCount: Record<string, number> = {};
+  for (const item of knowledgeItems) {
+    versatilityCount[item.versatility] = (versatilityCount[item.versatility] || 0) + 1;
+  }
+
+  logger.info('\n汎用性レベル別内訳:');
+  for (const [level, count] of Object.entries(versatilityCount)) {
+    logger.info(`  ${level}: ${count}件`);
+  }
+
+  return {
+    roomId,
+    roomName: roomInfo.name,
+    status: 'success',
+    knowledgeItems,
+    model: usedModel,
+    outputFiles: [internalMdPath, externalMdPath, externalJsonPath],
+    warnings,
+    gaps,
+    usage,
+    dropped
+  };
+}
+
+/**
+ * 未分析メッセージの分析結果
+ */
+interface AnalysisStepResult {
+  unanalyzedCount: number;  // 未分析メッセージ（事前フィルタ前）
+  pendingCount: number;     // 事前フィルタ・トリアージを通過した分析待ちのメッセージ
+  analyzedCount: number;    // 今回分析したメッセージ
+  retryExhaustedCount: number;  // 再試行の上限に達したため分析対象から除外したメッセージ
+  dropped: StageDropCounts;     // 段階ごとに分析対象から外したメッセージ
+  usage: RunUsageRecord | null; // 使用したトークン・料金（分析しなかった場合はnull）
+  triageUsage: RunUsageRecord[];      // トリアージで使用したトークン・料金（判定・Batchの回収ごと）
+  preview?: PromptPreview;      // dry-runの見積もり
+  model: string;            // 使用モデル（分析しなかった場合は空文字）
+}
+
+/**
+ * 未分析メッセージを事前フィルタ → トリアージ（有効な場合）→ Claude APIで分析 → キャッシュに保存
+ * @param messages 分析対象の候補（期間フィルタ済み）
+ * @param contextMessages 文脈の解決に使うメッセージ（キャッシュ全体）
+ * @param batchSize 指定時は分析待ちがこの件数に達した場合のみ、古い順にこの件数だけ分析する（watchモード用）
+ */
+async function analyzeUnanalyzedMessages(
+  roomId: string,
+  messages: ChatworkMessage[],
+  contextMessages: ChatworkMessage[],
+  fileMap: Map<string, ChatworkFile> | null,
+  ctx: RunContext,
+  batchSize?: number
+): Promise<AnalysisStepResult> {
+  const logger = new Logger('Main');
+  const { cacheManager, speakerMapManager, threadMapManager, batchJobManager, teamProfileManager } = ctx;
+
+  // 未分析メッセージを抽出（結果を回収していないBatchの対象は二重に送信しない）
+  const analyzedIds = await cacheManager.getAnalyzedIds(roomId);
+  const pendingBatchIds = await batchJobManager.getPendingMessageIds(roomId);
+  const exhaustedIds = await cacheManager.getRetryExhaustedIds(roomId, ctx.maxAnalysisAttempts);
+  const unanalyzedMessages = cacheManager.getUnanalyzedMessages(messages, [...analyzedIds, ...pendingBatchIds, ...exhaustedIds]);
+  if (pendingBatchIds.length > 0) {
+    logger.warn(`結果を回収していないBatchの対象 ${pendingBatchIds.length}件は分析対象から除外します（npm run collect で回収できます）`);
+  }
+  const messageIds = new Set(messages.map(m => m.message_id));
+  const retryExhaustedCount = exhaustedIds.filter(id => messageIds.has(id)).length;
+  if (retryExhaustedCount > 0) {
+    logger.warn(`分析に${ctx.maxAnalysisAttempts}回失敗したメッセージ ${retryExhaustedCount}件は分析対象から除外します`);
+  }
+
+  logger.info(`未分析メッセージ: ${unanalyzedMessages.length}件\n`);
+
+  const result: AnalysisStepResult = {
+    unanalyzedCount: unanalyzedMessages.length,
+    pendingCount: 0,
+    analyzedCount: 0,
+    retryExhaustedCount,
+    dropped: { prefilter: 0, triage: 0, analysis: 0 },
+    usage: null,
+    triageUsage: [],
+    model: ''
+  };
+
+  if (unanalyzedMessages.length === 0) {
+    return result;
+  }
+
+  const roleResolver = teamProfileManager!.hasProfiles()
+    ? (accountId: number) => teamProfileManager!.resolveRole(accountId)
+    : undefined;
+
+  // メッセージの事前フィルタリング（知見が含まれない可能性が高いものを除外）
+  logger.info('事前フィルタリング中...');
+  // 添付ファイルタグをファイル名に置き換えてから分析（参照ファイルは分析後に知見へ紐づける）
+  const messagesToFilter = fileMap
+    ? unanalyzedMessages.map(m => ({ ...m, body: resolveFileReferences(m.body, fileMap) }))
+    : unanalyzedMessages;
+  const { filtered, excluded, stats } = filterMessages(messagesToFilter, ctx.filterConfig);
+  logger.info(`  - 対象: ${stats.total}件`);
+  logger.info(`  - スキップ: ${stats.skipped}件 (短すぎる/定型文)`);
+  logger.info(`  - 切り詰め: ${stats.truncated}件 (${ctx.filterConfig.maxLength}文字超)`);
+  logger.info(`  - API送信: ${filtered.length}件\n`);
+
+  if (stats.skipped > 0) {
+    logger.info('スキップ理由の内訳:');
+    for (const [reason, count] of Object.entries(stats.reasons)) {
+      logger.info(`  - ${reason}: ${count}件`);
+    }
+    logger.info('');
+  }
+
+  result.dropped.prefilter = stats.skipped;
+
+  // 事前フィルタで除外したメッセージを記録（分析済みにはしないため、フィルタ設定を変えれば再判定される）
+  if (excluded.length > 0 && !ctx.isDryRun) {
+    await cacheManager.recordAnalysisStatus(roomId, {
+      succeeded: [],
+      failures: [],
+      excluded: excluded.map(({ message, reason }) => ({ messageId: message.message_id, reason }))
+    });
+  }
+
+  // トリアージ: 安価なモデルで知見なしと判定したメッセージを本分析から除外
+  let candidates = filtered;
+  if (ctx.triageConfig && filtered.length > 0) {
+    const triage = await triageMessages(roomId, filtered, roleResolver, ctx);
+    candidates = triage.passed;
+    result.dropped.triage = triage.droppedCount;
+    result.triageUsage = triage.usage;
+  }
+
+  result.pendingCount = candidates.length;
+
+  // 小分け分析: 件数が揃うまで待ち、揃ったら古い順にbatchSize件だけ分析
+  let filteredMessages = candidates;
+  if (batchSize !== undefined) {
+    if (candidates.length < batchSize) {
+      logger.info(`分析待ち: ${candidates.length}件（${batchSize}件たまったら分析します）\n`);
+      return result;
+    }
+    filteredMessages = [...candidates].sort((a, b) => a.send_time - b.send_time).slice(0, batchSize);
+  }
+
+  // 発言者マッピングを保存（フィルタリング後のメッセージで保存）
+  if (!ctx.isDryRun) {
+    await speakerMapManager.save(roomId, filteredMessages, roleResolver);
+  }
+
+  if (filteredMessages.length === 0) {
+    logger.info('フィルタリング後、新規の分析対象メッセージはありません。キャッシュがあれば出力します。\n');
+    return result;
+  }
+
+  // Step 2: Claude APIで分析（フィルタリング済みメッセージのみ）
+  logger.info(ctx.isDryRun
+    ? '[2/5] 送信内容を確認中（dry-run: Claude APIは呼び出しません）...\n'
+    : '[2/5] Claude APIで分析中...\n');
+
+  const analyzer = ctx.getAnalyzer();
+  const usedModel = analyzer.getModel();
+  logger.info(`使用モデル: ${usedModel}`);
+
+  if (ctx.claudeApiMode === 'batch') {
+    logger.info('※ Batch API: 50%割引、処理時間は数分〜24時間\n');
+  } else {
+    logger.info('※ Realtime API: 通常価格、処理時間は数秒〜数分\n');
+  }
+
+  const threadMap = await threadMapManager.load(roomId);
+  const newlyAnalyzedIds = filteredMessages.map(m => m.message_id);
+
+  // 会話ウィンドウ単位: 一連のやりとりを1リクエストにまとめる（文脈はウィンドウ内の発言で代替）
+  let windows: ConversationWindow[] | null = null;
+  let contextResolver: ContextResolver | undefined;
+  if (ctx.analysisUnit === 'window') {
+    windows = buildConversationWindows(filteredMessages, threadMap?.links ?? {}, ctx.windowConfig);
+    logger.info(`分析単位: 会話（${windows.length}件、間隔${ctx.windowConfig.gapMinutes}分以内・最大${ctx.windowConfig.maxMessages}件でまとめる）`);
+    if (ctx.contextMode !== 'none') {
+      logger.info('※ 会話単位の分析では ANALYSIS_CONTEXT_MODE は使用しません');
+    }
+  } else {
+    // 文脈（直前の発言・返信先・引用元）はフィルタ・切り詰め前のキャッシュ全体から解決
+    contextResolver = createContextResolver(
+      contextMessages,
+      threadMap?.links ?? {},
+      ctx.contextMode,
+      ctx.contextSize
+    );
+    if (contextResolver) {
+      logger.info(`文脈モード: ${ctx.contextMode}${ctx.contextMode === 'previous' ? `（直前${ctx.contextSize}件）` : '（返信先・引用元）'}`);
+    }
+  }
+
+  // dry-run: 送信するリクエストを書き出して見積もりを表示（分析済みにはしない）
+  if (ctx.isDryRun) {
+    const requests = windows
+      ? analyzer.prepareWindowRequests(windows, roleResolver)
+      : analyzer.prepareRequests(filteredMessages, roleResolver, contextResolver);
+    result.preview = await writeDryRunPreview(roomId, requests, filteredMessages.length, usedModel, ctx);
+    return result;
+  }
+
+  // 元発言が参照している添付ファイル（Batchの結果を後から回収する場合に備えて送信時に記録する）
+  const referencedFiles: Record<string, ReferencedFile[]> = {};
+  if (fileMap) {
+    for (const message of unanalyzedMessages) {
+      const files = collectReferencedFiles(message.body, fileMap);
+      if (files.length > 0) {
+        referencedFiles[message.message_id] = files;
       }
     }
+  }
 
-  } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : String(error);
-    logger.error(`\nエラーが発生しました: ${errorMsg}`, error);
-    process.exit(1);
+  // Batch APIの場合は送信したBatchを記録（プロセスが終了しても npm run collect で回収できる）
+  const tracker = ctx.claudeApiMode === 'batch'
+    ? batchJobManager.createTracker(roomId, newlyAnalyzedIds, referencedFiles)
+    : undefined;
+  const outcome = windows
+    ? await analyzer.analyzeWindows(windows, roleResolver, tracker)
+    : await analyzer.analyze(filteredMessages, roleResolver, contextResolver, tracker);
+
+  if (outcome === null) {
+    logger.info('\nBatchの完了を待たずに終了します。完了後に npm run collect で結果を回収してください\n');
+    return result;
+  }
+
+  logger.info('\n[3/5] 分析結果をキャッシュに保存中...\n');
+  result.usage = await saveAnalysisStep(roomId, outcome, newlyAnalyzedIds, referencedFiles, usedModel, ctx.claudeApiMode, ctx);
+  await tracker?.complete();
+
+  // 分析できたが、出力対象になる知見が1件もなかったメッセージ
+  const failedIds = new Set(outcome.failures.flatMap(failure => failure.messageIds));
+  const knowledgeIds = new Set(outcome.items
+    .filter(item => item.versatility !== 'exclude' && item.category !== '除外対象')
+    .flatMap(getSourceMessageIds));
+  result.dropped.analysis = newlyAnalyzedIds.filter(id => !failedIds.has(id) && !knowledgeIds.has(id)).length;
+
+  result.analyzedCount = filteredMessages.length;
+  result.model = usedModel;
+  return result;
+}
+
+/**
+ * トリアージの結果
+ */
+interface TriageStepResult {
+  passed: ChatworkMessage[];   // 本分析に送るメッセージ
+  droppedCount: number;        // 今回の判定で知見なしとして除外したメッセージ（判定済みの除外は含まない）
+  usage: RunUsageRecord[];     // 使用したトークン・料金（判定・Batchの回収ごと）
+}
+
+/**
+ * 事前フィルタを通過したメッセージをトリアージし、知見ありと判定したメッセージを返す
+ * 判定結果はキャッシュし、メッセージが編集された場合・モデルを変更した場合のみ判定し直す
+ * 判定できなかったメッセージは、知見を取りこぼさないよう本分析に送る
+ * Batchは送信時に記録し、待機の上限までに完了しなかった場合は対象を今回の分析から外して次回の実行で回収する
+ */
+async function triageMessages(
+  roomId: string,
+  messages: ChatworkMessage[],
+  roleResolver: ((accountId: number) => ResolvedRole) | undefined,
+  ctx: RunContext
+): Promise<TriageStepResult> {
+  const logger = new Logger('Main');
+  const config = ctx.triageConfig!;
+  const { triageCacheManager } = ctx;
+  logger.info(`トリアージ中（${config.model}）...`);
+
+  const verdicts = await triageCacheManager.load(roomId);
+  const usage: RunUsageRecord[] = [];
+  const newlyJudgedIds = new Set<string>();
+  const waitingIds = new Set<string>();
+
+  const saveOutcome = async (outcome: TriageOutcome, model: string, apiMode: 'batch' | 'realtime', updateTimes: Record<string, number>) => {
+    const judgedAt = new Date().toISOString();
+    const newVerdicts: Record<string, TriageVerdict> = {};
+    for (const [messageId, judgement] of Object.entries(outcome.judgements)) {
+      newVerdicts[messageId] = { ...judgement, model, update_time: updateTimes[messageId], judged_at: judgedAt };
+      newlyJudgedIds.add(messageId);
+    }
+    await triageCacheManager.save(roomId, newVerdicts);
+    Object.assign(verdicts, newVerdicts);
+
+    const record = createUsageRecord(roomId, model, apiMode, outcome.usage, ctx.timestamp);
+    await ctx.runHistoryManager.append(record);
+    usage.push(record);
+  };
+
+  // 前回までに完了を待てなかったBatchを回収（dry-runでは回収せず、対象を判定待ちとして扱う）
+  for (const job of await triageCacheManager.listPendingBatches(roomId)) {
+    const outcome = ctx.isDryRun ? null : await ctx.getTriage().collectBatch(job);
+    if (!outcome || outcome.pendingJob) {
+      job.messageIds.forEach(id => waitingIds.add(id));
+      continue;
+    }
+    await saveOutcome(outcome, job.model, 'batch', job.updateTimes);
+    await triageCacheManager.removePendingBatch(roomId, job.batchId);
+  }
+
+  const unjudged = messages.filter(m => !waitingIds.has(m.message_id) && !isVerdictValid(verdicts[m.message_id], m, config.model));
+  if (unjudged.length > 0 && ctx.isDryRun) {
+    logger.info(`  ※ dry-run: 未判定の${unjudged.length}件はトリアージせず、本分析の対象として見積もります`);
+  } else if (unjudged.length > 0) {
+    let submittedBatchId: string | null = null;
+    const outcome = await ctx.getTriage().triage(unjudged, roleResolver, async job => {
+      submittedBatchId = job.batchId;
+      await triageCacheManager.addPendingBatch(roomId, job);
+    });
+    if (outcome.pendingJob) {
+      outcome.pendingJob.messageIds.forEach(id => waitingIds.add(id));
+    } else {
+      const updateTimes = Object.fromEntries(unjudged.map(m => [m.message_id, m.update_time]));
+      await saveOutcome(outcome, config.model, config.apiMode, updateTimes);
+      if (submittedBatchId) {
+        await triageCacheManager.removePendingBatch(roomId, submittedBatchId);
+      }
+    }
+  }
+
+  const hasKnowledge = (message: ChatworkMessage): boolean => {
+    const verdict = verdicts[message.message_id];
+    return !isVerdictValid(verdict, message, config.model) || verdict.has_knowledge;
+  };
+  // 判定待ちのメッセージは、判定結果を回収するまで本分析に送らない
+  const targets = messages.filter(m => !waitingIds.has(m.message_id));
+  let passed = targets.filter(hasKnowledge);
+
+  // 会話単位の分析では、知見ありの発言と同じ会話の発言も残す（質問と回答のように、単独では知見にならない発言を含めて分析する）
+  if (ctx.analysisUnit === 'window') {
+    const threadMap = await ctx.threadMapManager.load(roomId);
+    passed = buildConversationWindows(targets, threadMap?.links ?? {}, ctx.windowConfig)
+      .filter(window => window.messages.some(hasKnowledge))
+      .flatMap(window => window.messages);
+  }
+
+  const passedIds = new Set(passed.map(m => m.message_id));
+  const dropped = targets.filter(m => !passedIds.has(m.message_id));
+  if (dropped.length > 0 && !ctx.isDryRun) {
+    await ctx.cacheManager.recordAnalysisStatus(roomId, {
+      succeeded: [],
+      failures: [],
+      excluded: dropped.map(m => ({ messageId: m.message_id, reason: TRIAGE_EXCLUDED_REASON }))
+    });
+  }
+
+  // 判定済みのメッセージは毎回の実行で除外されるため、件数は今回判定した分のみ数える
+  const newlyDropped = dropped.filter(m => newlyJudgedIds.has(m.message_id)).length;
+  const waitingCount = messages.filter(m => waitingIds.has(m.message_id)).length;
+  logger.info(`  - 対象: ${messages.length}件（判定済み: ${messages.length - unjudged.length - waitingCount}件）`);
+  if (waitingCount > 0) {
+    logger.info(`  - 判定待ち（Batch未完了）: ${waitingCount}件`);
+  }
+  logger.info(`  - 知見なし（今回の判定）: ${newlyDropped}件`);
+  logger.info(`  - 本分析へ: ${passed.length}件\n`);
+  return { passed, droppedCount: newlyDropped, usage };
+}
+
+/**
+ * 分析結果を保存し、対象メッセージの分析状態とトークン使用量を記録
+ * 失敗したリクエストの対象メッセージは分析済みにせず、次回の実行で再試行する
+ * 元発言が参照している添付ファイルを知見に記録する（会話単位の知見は寄与したメッセージすべて）
+ * @returns 実行履歴に記録したトークン使用量・料金
+ */
+async function saveAnalysisStep(
+  roomId: string,
+  outcome: AnalysisOutcome,
+  analyzedIds: string[],
+  referencedFiles: Record<string, ReferencedFile[]>,
+  model: string,
+  apiMode: 'batch' | 'realtime',
+  ctx: RunContext
+): Promise<RunUsageRecord> {
+  const items = outcome.items.map(item => {
+    const files = getSourceMessageIds(item).flatMap(id => referencedFiles[id] ?? []);
+    const uniqueFiles = files.filter((file, index) =>
+      files.findIndex(other => other.file_id === file.file_id) === index
+    );
+    return uniqueFiles.length > 0
+      ? { ...item, referenced_files: uniqueFiles }
+      : item;
+  });
+
+  // 分析状態を記録（成功したメッセージのみ分析済みとする）
+  const failedIds = new Set(outcome.failures.flatMap(failure => failure.messageIds));
+  await ctx.cacheManager.recordAnalysisStatus(roomId, {
+    succeeded: analyzedIds.filter(id => !failedIds.has(id)),
+    failures: outcome.failures,
+    excluded: []
+  });
+
+  // 分析結果をキャッシュに保存（モデル情報付き）
+  await ctx.cacheManager.saveAnalysisResults(roomId, items, model);
+
+  // トークン使用量と料金を実行履歴に記録（月別の費用の集計用）
+  const record = createUsageRecord(roomId, model, apiMode, outcome.usage, ctx.timestamp);
+  await ctx.runHistoryManager.append(record);
+  return record;
+}
+
+/**
+ * dry-run: 送信するリクエストを書き出し、トークン数と料金の見積もりを表示
+ * プロンプトには発言者名・本文がそのまま含まれるため、内部用の出力と同様に扱う
+ */
+async function writeDryRunPreview(
+  roomId: string,
+  requests: PreparedRequest[],
+  messageCount: number,
+  model: string,
+  ctx: RunContext
+): Promise<PromptPreview> {
+  const logger = new Logger('Main');
+
+  const files = await writePromptPreview(requests, join(ctx.outputDir, 'dry-run'), `dryrun_${roomId}_${ctx.timestamp}`);
+  const preview: PromptPreview = {
+    requests: requests.length,
+    messages: messageCount,
+    estimatedUsage: estimateUsage(requests),
+    maxOutputTokens: requests.reduce((sum, request) => sum + request.params.max_tokens, 0),
+    files
+  };
+
+  logger.info(`\n送信するリクエスト: ${preview.requests}件（メッセージ${preview.messages}件）`);
+  logger.info(`推定トークン数: ${formatUsage(preview.estimatedUsage)}（出力は1リクエスト${ESTIMATED_OUTPUT_TOKENS_PER_REQUEST}トークンで見積もり、上限 ${preview.maxOutputTokens.toLocaleString('en-US')}）`);
+  const cost = estimateCost(model, preview.estimatedUsage, ctx.claudeApiMode === 'batch');
+  logger.info(`推定料金（${model}、${ctx.claudeApiMode === 'batch' ? 'Batch API' : 'Realtime API'}）: ${formatCost(cost)}`);
+  logger.info(`プロンプトを書き出しました:`);
+  for (const file of files) {
+    logger.info(`  - ${file}`);
+  }
+  logger.info('');
+  return preview;
+}
+
+/**
+ * dry-run: 全ルームの見積もりをモデル・API種別ごとに表示
+ */
+function showDryRunSummary(results: RoomRunResult[], model: string, claudeApiMode: 'batch' | 'realtime'): void {
+  const logger = new Logger('Main');
+  const previews = results.flatMap(r => r.preview ? [r.preview] : []);
+  const usage = previews.reduce((sum, preview) => addUsage(sum, preview.estimatedUsage), emptyUsage());
+  const messageCount = previews.reduce((sum, preview) => sum + preview.messages, 0);
+
+  logger.info('\n=== dry-run: 見積もり（全ルーム） ===\n');
+  logger.info(`送信するリクエスト: ${usage.requests}件（メッセージ${messageCount}件）`);
+  logger.info(`推定トークン数: ${formatUsage(usage)}`);
+  if (usage.requests === 0) {
+    return;
+  }
+
+  logger.info('\nモデル・API種別ごとの推定料金:');
+  for (const line of formatCostEstimates(usage, model)) {
+    logger.info(`  ${line}`);
+  }
+  logger.info(`\n※ トークン数は文字数からの概算です（現在の設定: ${model}、${claudeApiMode === 'batch' ? 'Batch API' : 'Realtime API'}）`);
+  logger.info('※ Claude APIは呼び出しておらず、メッセージは分析済みになっていません');
+}
+
+/**
+ * 実行履歴の記録を作成（料金はBatch APIの割引を適用）
+ */
+function createUsageRecord(
+  roomId: string,
+  model: string,
+  apiMode: 'batch' | 'realtime',
+  usage: TokenUsage,
+  runId: string
+): RunUsageRecord {
+  return {
+    run_id: runId,
+    room_id: roomId,
+    recorded_at: new Date().toISOString(),
+    model,
+    api_mode: apiMode,
+    requests: usage.requests,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
+    cache_write_tokens: usage.cacheWriteTokens,
+    cache_read_tokens: usage.cacheReadTokens,
+    cost_usd: estimateCost(model, usage, apiMode === 'batch')
+  };
+}
+
+/**
+ * 実行履歴の記録の合計を表示用に整形（例: $0.0123（入力 12,345 / 出力 2,345 tokens、8リクエスト））
+ */
+function formatUsageRecords(records: RunUsageRecord[]): string {
+  const usage: TokenUsage = {
+    requests: records.reduce((sum, r) => sum + r.requests, 0),
+    inputTokens: records.reduce((sum, r) => sum + r.input_tokens, 0),
+    outputTokens: records.reduce((sum, r) => sum + r.output_tokens, 0),
+    cacheWriteTokens: records.reduce((sum, r) => sum + (r.cache_write_tokens ?? 0), 0),
+    cacheReadTokens: records.reduce((sum, r) => sum + (r.cache_read_tokens ?? 0), 0)
+  };
+  return `${formatTotalCost(records.map(r => r.cost_usd))}（${formatUsage(usage)}、${usage.requests}リクエスト）`;
+}
+
+/**
+ * 段階ごとに除外したメッセージ数を表示用に整形（例: 事前フィルタ 120件 / トリアージ 80件 / 本分析 15件（知見なし））
+ */
+function formatDropCounts(dropped: StageDropCounts, withTriage: boolean): string {
+  const parts = [`事前フィルタ ${dropped.prefilter}件`];
+  if (withTriage) {
+    parts.push(`トリアージ ${dropped.triage}件`);
   }
+  parts.push(`本分析 ${dropped.analysis}件（知見なし）`);
+  return parts.join(' / ');
+}
+
+/**
+ * 結果を回収していないBatchの完了を待ち、結果を分析キャッシュに保存
+ * @returns Batchごとのトークン使用量・料金
+ */
+async function collectPendingBatches(roomId: string, ctx: RunContext): Promise<RunUsageRecord[]> {
+  const logger = new Logger('Main');
+  const jobs = await ctx.batchJobManager.list(roomId);
+  if (jobs.length === 0) {
+    logger.info('未回収のBatchはありません\n');
+    return [];
+  }
+
+  const usage: RunUsageRecord[] = [];
+
+  logger.info(`未回収のBatch: ${jobs.length}件\n`);
+  for (const job of jobs) {
+    logger.info(`Batch ${job.batchId}（${job.messageIds.length}件のメッセージ、送信: ${new Date(job.createdAt).toLocaleString('ja-JP')}）`);
+    const tracker = ctx.batchJobManager.createTracker(roomId, job.messageIds, job.referencedFiles, job.batchId);
+    const outcome = await ctx.getAnalyzer().collectBatch(job, tracker);
+
+    usage.push(await saveAnalysisStep(roomId, outcome, job.messageIds, job.referencedFiles, job.model, 'batch', ctx));
+    await tracker.complete();
+    logger.info(`Batch ${job.batchId} の結果を保存しました\n`);
+  }
+  return usage;
+}
+
+/**
+ * 出力対象なしの結果を生成
+ */
+function emptyResult(
+  roomId: string,
+  roomName: string,
+  model: string,
+  warnings: string[],
+  gaps: HistoryGap[],
+  usage: RunUsageRecord[]
+): RoomRunResult {
+  return {
+    roomId,
+    roomName,
+    status: 'empty',
+    knowledgeItems: [],
+    model,
+    outputFiles: [],
+    warnings,
+    gaps,
+    usage
+  };
 }
 
 /**
@@ -0,0 +1,30 @@
+import type { ChatworkClient, FetchResult } from '../chatwork/client.js';
+import { buildMessageUrl } from '../chatwork/thread.js';
+import type { MessageSource, SourceRoom } from './types.js';
+
+/**
+ * Chatwork APIをメッセージソースとして扱うアダプター
+ * タスク・添付ファイルなどChatwork固有の機能はChatworkClientを直接使う
+ */
+export class ChatworkSource implements MessageSource {
+  readonly type = 'chatwork' as const;
+  readonly label = 'Chatwork';
+  private client: ChatworkClient;
+
+  constructor(client: ChatworkClient) {
+    this.client = client;
+  }
+
+  async getRoomInfo(roomId: string): Promise<SourceRoom> {
+    const room = await this.client.getRoomInfo(roomId);
+    return { id: String(room.room_id), name: room.name };
+  }
+
+  getAllMessages(roomId: string, maxMessages: number, runId?: string): Promise<FetchResult> {
+    return this.client.getAllMessages(roomId, maxMessages, runId);
+  }
+
+  getMessageUrl(roomId: string, messageId: string): string | null {
+    return buildMessageUrl(roomId, messageId);
+  }
+}
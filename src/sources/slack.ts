@@ -0,0 +1,353 @@
+/**
+ * Slackワークスペースのエクスポート（ZIP、または展開したフォルダ）をメッセージソースとして扱うアダプター
+ *
+ * エクスポートの構成:
+ *   users.json                  ユーザー一覧
+ *   channels.json / groups.json / mpims.json / dms.json  チャンネル一覧
+ *   {チャンネル名}/YYYY-MM-DD.json  日別のメッセージ（DMはチャンネルIDのフォルダ）
+ *
+ * ルームIDにはSlackのチャンネルID（C0123ABCD など）を使う
+ */
+
+import { createHash } from 'crypto';
+import { readFile, readdir, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, relative, sep } from 'path';
+import type { ChatworkAccount, ChatworkMessage, FetchResult } from '../chatwork/client.js';
+import { MessageCacheManager } from '../cache/messages.js';
+import { Logger } from '../utils/logger.js';
+import { ZipReader } from './zip.js';
+import type { MessageSource, SourceRoom } from './types.js';
+
+export interface SlackUser {
+  id: string;
+  name: string;
+  real_name?: string;
+  deleted?: boolean;
+  profile?: {
+    display_name?: string;
+    real_name?: string;
+    image_72?: string;
+  };
+}
+
+export interface SlackChannel {
+  id: string;
+  name?: string;       // DMには名前がない
+  members?: string[];  // DMの参加者
+}
+
+export interface SlackFile {
+  id: string;
+  name?: string;
+  title?: string;
+}
+
+export interface SlackMessage {
+  type: string;
+  subtype?: string;
+  user?: string;
+  text?: string;
+  ts: string;
+  thread_ts?: string;
+  edited?: { user?: string; ts: string };
+  files?: SlackFile[];
+  user_profile?: { display_name?: string; real_name?: string; image_72?: string };
+}
+
+// 分析対象にするsubtype（未設定は通常の発言）。参加・退出・トピック変更などは除外
+const CONTENT_SUBTYPES = new Set(['thread_broadcast', 'file_share', 'me_message']);
+
+// チャンネル一覧ファイルと、メッセージフォルダ名の決め方
+const CHANNEL_LIST_FILES: { file: string; folder: 'name' | 'id' }[] = [
+  { file: 'channels.json', folder: 'name' },
+  { file: 'groups.json', folder: 'name' },
+  { file: 'mpims.json', folder: 'name' },
+  { file: 'dms.json', folder: 'id' }
+];
+
+/**
+ * エクスポートの読み込み（ZIP / フォルダ）
+ */
+interface ExportReader {
+  listFiles(): string[];
+  readText(path: string): Promise<string | null>;
+}
+
+interface LoadedExport {
+  reader: ExportReader;
+  root: string;  // エクスポートのルート（ZIP内で1階層下にある場合に対応）
+  users: Map<string, SlackUser>;
+  channels: Map<string, SlackChannel & { folder: string }>;
+}
+
+export class SlackExportSource implements MessageSource {
+  readonly type = 'slack' as const;
+  readonly label = 'Slack';
+  private exportPath: string;
+  private workspaceUrl?: string;
+  private cacheManager: MessageCacheManager;
+  private logger: Logger;
+  private loaded: LoadedExport | null = null;
+
+  /**
+   * @param exportPath エクスポートのZIPファイル、または展開したフォルダ
+   * @param workspaceUrl メッセージリンク生成用（例: https://example.slack.com）
+   */
+  constructor(exportPath: string, workspaceUrl?: string, cacheDir: string = './cache') {
+    this.exportPath = exportPath;
+    this.workspaceUrl = workspaceUrl?.replace(/\/+$/, '');
+    this.cacheManager = new MessageCacheManager(cacheDir);
+    this.logger = new Logger('Slack');
+  }
+
+  /**
+   * エクスポートに含まれるチャンネルの一覧
+   */
+  async listChannels(): Promise<SourceRoom[]> {
+    const { channels, users } = await this.load();
+    return Array.from(channels.values()).map(channel => ({
+      id: channel.id,
+      name: channel.name ?? this.describeDm(channel, users)
+    }));
+  }
+
+  async getRoomInfo(roomId: string): Promise<SourceRoom> {
+    const { channels, users } = await this.load();
+    const channel = channels.get(roomId);
+    if (!channel) {
+      throw new Error(`Slackエクスポートにチャンネルがありません: ${roomId}`);
+    }
+    return { id: channel.id, name: channel.name ?? this.describeDm(channel, users) };
+  }
+
+  /**
+   * チャンネルの全メッセージをエクスポートから読み込み、キャッシュにマージ
+   * エクスポートは取得件数の上限がないため、警告・欠落期間は出さない
+   */
+  async getAllMessages(roomId: string, maxMessages: number = 500): Promise<FetchResult> {
+    const { reader, root, users, channels } = await this.load();
+    const channel = channels.get(roomId);
+    if (!channel) {
+      throw new Error(`Slackエクスポートにチャンネルがありません: ${roomId}`);
+    }
+
+    await this.cacheManager.showStats(roomId);
+
+    // {フォルダ}/YYYY-MM-DD.json を日付順に読み込む
+    const folderPrefix = joinExportPath(root, channel.folder) + '/';
+    const dayFiles = reader.listFiles()
+      .filter(path => path.startsWith(folderPrefix) && /\/\d{4}-\d{2}-\d{2}\.json$/.test(path))
+      .sort();
+
+    const exported: ChatworkMessage[] = [];
+    for (const path of dayFiles) {
+      const content = await reader.readText(path);
+      if (!content) continue;
+      const dayMessages = JSON.parse(content) as SlackMessage[];
+      for (const message of dayMessages) {
+        const converted = slackMessageToChatwork(message, users);
+        if (converted) exported.push(converted);
+      }
+    }
+
+    this.logger.info(`エクスポート読み込み: ${exported.length}件 (${dayFiles.length}日分)`);
+
+    const existingCache = await this.cacheManager.load(roomId);
+    let allMessages: ChatworkMessage[];
+    let updatedMessageIds: string[] = [];
+    if (!existingCache) {
+      allMessages = [...exported].sort((a, b) => b.send_time - a.send_time);
+    } else {
+      const mergeResult = this.cacheManager.mergeMessages(existingCache.messages, exported);
+      allMessages = mergeResult.messages;
+      updatedMessageIds = mergeResult.updatedIds;
+    }
+
+    await this.cacheManager.save(roomId, allMessages);
+
+    // 編集されたメッセージは再分析の対象に戻す
+    await this.cacheManager.invalidateAnalysis(roomId, updatedMessageIds);
+
+    if (allMessages.length > maxMessages) {
+      this.logger.info(`${maxMessages}件に制限`);
+      allMessages = allMessages.slice(0, maxMessages);
+    }
+
+    this.logger.info(`合計: ${allMessages.length}件`);
+
+    return {
+      messages: allMessages,
+      warnings: [],
+      isFirstRun: !existingCache,
+      apiMessageCount: exported.length,
+      updatedMessageIds,
+      gaps: []
+    };
+  }
+
+  /**
+   * SlackのメッセージURL（SLACK_WORKSPACE_URL 未設定の場合はnull）
+   * 例: https://example.slack.com/archives/C0123ABCD/p1700000000123456
+   */
+  getMessageUrl(roomId: string, messageId: string): string | null {
+    if (!this.workspaceUrl) return null;
+    return `${this.workspaceUrl}/archives/${roomId}/p${messageId.replace('.', '')}`;
+  }
+
+  /**
+   * エクスポートを読み込む（初回のみ）
+   */
+  private async load(): Promise<LoadedExport> {
+    if (this.loaded) return this.loaded;
+
+    if (!existsSync(this.exportPath)) {
+      throw new Error(`Slackエクスポートが見つかりません: ${this.exportPath}`);
+    }
+
+    const reader = (await stat(this.exportPath)).isDirectory()
+      ? await createFolderReader(this.exportPath)
+      : await createZipReader(this.exportPath);
+
+    // users.json のある階層をエクスポートのルートとする
+    const usersPath = reader.listFiles().find(path => path === 'users.json' || path.endsWith('/users.json'));
+    if (!usersPath) {
+      throw new Error('Slackエクスポートに users.json がありません');
+    }
+    const root = usersPath.slice(0, -'users.json'.length).replace(/\/$/, '');
+
+    const users = new Map<string, SlackUser>();
+    for (const user of JSON.parse((await reader.readText(usersPath))!) as SlackUser[]) {
+      users.set(user.id, user);
+    }
+
+    const channels = new Map<string, SlackChannel & { folder: string }>();
+    for (const { file, folder } of CHANNEL_LIST_FILES) {
+      const content = await reader.readText(joinExportPath(root, file));
+      if (!content) continue;
+      for (const channel of JSON.parse(content) as SlackChannel[]) {
+        const folderName = folder === 'name' && channel.name ? channel.name : channel.id;
+        channels.set(channel.id, { ...channel, folder: folderName });
+      }
+    }
+
+    this.logger.info(`エクスポート: ユーザー${users.size}人, チャンネル${channels.size}件`);
+
+    this.loaded = { reader, root, users, channels };
+    return this.loaded;
+  }
+
+  /**
+   * DMの表示名（参加者の名前）
+   */
+  private describeDm(channel: SlackChannel, users: Map<string, SlackUser>): string {
+    const names = (channel.members ?? []).map(id => displayName(users.get(id)) || id);
+    return names.length > 0 ? `DM: ${names.join(', ')}` : `DM (${channel.id})`;
+  }
+}
+
+/**
+ * SlackのメッセージをChatworkMessage形式に変換（分析対象外のsubtypeはnull）
+ * - message_id: ts（チャンネル内で一意）
+ * - parent_message_id: スレッドの親のts（スレッドの返信の場合）
+ * - account_id: SlackのユーザーIDから合成した負の数値（Chatworkのaccount_idと衝突しない）
+ */
+export function slackMessageToChatwork(
+  message: SlackMessage,
+  users: Map<string, SlackUser>
+): ChatworkMessage | null {
+  if (message.type !== 'message' || !message.user) return null;
+  if (message.subtype && !CONTENT_SUBTYPES.has(message.subtype)) return null;
+
+  let body = convertSlackText(message.text ?? '', users);
+  const fileNames = (message.files ?? []).map(file => file.name || file.title).filter(Boolean);
+  if (fileNames.length > 0) {
+    body += `${body ? '\n' : ''}${fileNames.map(name => `[添付ファイル: ${name}]`).join('\n')}`;
+  }
+  if (!body.trim()) return null;
+
+  const isThreadReply = message.thread_ts !== undefined && message.thread_ts !== message.ts;
+
+  return {
+    message_id: message.ts,
+    account: toAccount(message.user, users.get(message.user), message.user_profile),
+    body,
+    send_time: Math.floor(Number(message.ts)),
+    update_time: message.edited ? Math.floor(Number(message.edited.ts)) : 0,
+    ...(isThreadReply ? { parent_message_id: message.thread_ts } : {})
+  };
+}
+
+/**
+ * Slackのmrkdwnをパイプライン用のテキストに変換
+ * - <@U123> → @表示名、<#C123|general> → #general、<!here> → @here
+ * - <https://example.com|ラベル> → ラベル (https://example.com)
+ * - ```コード``` → [code]コード[/code]（記法パーサーでコードブロックとして扱う）
+ * - &lt; &gt; &amp; を元の文字に戻す
+ */
+export function convertSlackText(text: string, users: Map<string, SlackUser>): string {
+  return text
+    .replace(/```\n?([\s\S]*?)\n?```/g, (_, code: string) => `[code]${code}[/code]`)
+    .replace(/<@([A-Z0-9]+)(?:\|[^>]*)?>/g, (_, userId: string) => `@${displayName(users.get(userId)) || 'メンバー'}`)
+    .replace(/<#[A-Z0-9]+\|([^>]+)>/g, '#$1')
+    .replace(/<!(here|channel|everyone)(?:\|[^>]*)?>/g, '@$1')
+    .replace(/<!subteam\^[A-Z0-9]+\|([^>]+)>/g, '$1')
+    .replace(/<((?:https?|mailto):[^|>]+)\|([^>]+)>/g, '$2 ($1)')
+    .replace(/<((?:https?|mailto):[^>]+)>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+function toAccount(
+  userId: string,
+  user: SlackUser | undefined,
+  profile?: SlackMessage['user_profile']
+): ChatworkAccount {
+  return {
+    account_id: slackUserToAccountId(userId),
+    name: displayName(user) || profile?.display_name || profile?.real_name || userId,
+    avatar_image_url: user?.profile?.image_72 ?? profile?.image_72 ?? ''
+  };
+}
+
+function displayName(user: SlackUser | undefined): string {
+  if (!user) return '';
+  return user.profile?.display_name || user.profile?.real_name || user.real_name || user.name;
+}
+
+/**
+ * SlackのユーザーIDから数値のaccount_idを合成（負の値で実在のChatwork IDと衝突させない）
+ * チームプロファイルではこの値で発言者を指定する
+ */
+export function slackUserToAccountId(userId: string): number {
+  const hash = createHash('sha1').update(`slack:${userId}`).digest();
+  return -(hash.readUInt32BE(0) % 1_000_000_000 + 1);
+}
+
+function joinExportPath(root: string, path: string): string {
+  return root ? `${root}/${path}` : path;
+}
+
+async function createZipReader(zipPath: string): Promise<ExportReader> {
+  const zip = new ZipReader(await readFile(zipPath));
+  const files = zip.listFiles();
+  return {
+    listFiles: () => files,
+    readText: async (path: string) => zip.read(path)?.toString('utf-8') ?? null
+  };
+}
+
+async function createFolderReader(folderPath: string): Promise<ExportReader> {
+  const entries = await readdir(folderPath, { recursive: true, withFileTypes: true });
+  const files = entries
+    .filter(entry => entry.isFile())
+    .map(entry => relative(folderPath, join(entry.parentPath ?? entry.path, entry.name)).split(sep).join('/'));
+  return {
+    listFiles: () => files,
+    readText: async (path: string) => {
+      const fullPath = join(folderPath, ...path.split('/'));
+      return existsSync(fullPath) ? readFile(fullPath, 'utf-8') : null;
+    }
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * メッセージソース（Chatwork / Slack など）の共通インターフェース
+ *
+ * 各ソースはメッセージをパイプライン共通の形式（ChatworkMessage）に変換して返す。
+ * フィルタ・分析・発言者マッピング・出力はこの形式だけを扱うため、ソースを意識しない
+ */
+
+import type { FetchResult } from '../chatwork/client.js';
+
+export type SourceType = 'chatwork' | 'slack';
+
+/**
+ * 処理対象のルーム（Chatworkのルーム / Slackのチャンネル）
+ */
+export interface SourceRoom {
+  id: string;
+  name: string;
+}
+
+export interface MessageSource {
+  readonly type: SourceType;
+  readonly label: string;  // ログ表示用（例: Chatwork）
+
+  /**
+   * ルーム情報を取得
+   */
+  getRoomInfo(roomId: string): Promise<SourceRoom>;
+
+  /**
+   * メッセージを取得してキャッシュにマージ（新しい順、maxMessages件まで）
+   * @param runId 欠落期間を検出した実行の識別子
+   */
+  getAllMessages(roomId: string, maxMessages: number, runId?: string): Promise<FetchResult>;
+
+  /**
+   * 元メッセージへのリンクURL（生成できない場合はnull）
+   */
+  getMessageUrl(roomId: string, messageId: string): string | null;
+}
+
+export function isSourceType(value: string): value is SourceType {
+  return value === 'chatwork' || value === 'slack';
+}
@@ -0,0 +1,112 @@
+/**
+ * ZIPファイルの最小限のリーダー（Slackのエクスポート読み込み用）
+ *
+ * 中央ディレクトリからエントリ一覧を読み、無圧縮（stored）とDeflateのエントリを展開する。
+ * ZIP64・暗号化・分割アーカイブには対応しない
+ */
+
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+
+// EOCDの固定長部分 + コメント最大長
+const EOCD_MIN_SIZE = 22;
+const EOCD_SEARCH_SIZE = EOCD_MIN_SIZE + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+export class ZipReader {
+  private buffer: Buffer;
+  private entries: Map<string, ZipEntry>;
+
+  constructor(buffer: Buffer) {
+    this.buffer = buffer;
+    this.entries = this.readCentralDirectory();
+  }
+
+  /**
+   * エントリ名の一覧（ディレクトリを除く）
+   */
+  listFiles(): string[] {
+    return Array.from(this.entries.keys()).filter(name => !name.endsWith('/'));
+  }
+
+  /**
+   * エントリを展開して返す（存在しない場合はnull）
+   */
+  read(name: string): Buffer | null {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+
+    const offset = entry.localHeaderOffset;
+    if (this.buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER_SIGNATURE) {
+      throw new Error(`ZIPのローカルヘッダーが不正です: ${name}`);
+    }
+    const nameLength = this.buffer.readUInt16LE(offset + 26);
+    const extraLength = this.buffer.readUInt16LE(offset + 28);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    const data = this.buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+    switch (entry.method) {
+      case METHOD_STORED:
+        return Buffer.from(data);
+      case METHOD_DEFLATE:
+        return inflateRawSync(data);
+      default:
+        throw new Error(`未対応のZIP圧縮方式です (method=${entry.method}): ${name}`);
+    }
+  }
+
+  private readCentralDirectory(): Map<string, ZipEntry> {
+    const eocdOffset = this.findEndOfCentralDirectory();
+    const entryCount = this.buffer.readUInt16LE(eocdOffset + 10);
+    const directoryOffset = this.buffer.readUInt32LE(eocdOffset + 16);
+
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error('ZIP64形式のアーカイブには対応していません。展開したフォルダを指定してください');
+    }
+
+    const entries = new Map<string, ZipEntry>();
+    let offset = directoryOffset;
+    for (let i = 0; i < entryCount; i++) {
+      if (this.buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE) {
+        throw new Error('ZIPの中央ディレクトリが不正です');
+      }
+      const method = this.buffer.readUInt16LE(offset + 10);
+      const compressedSize = this.buffer.readUInt32LE(offset + 20);
+      const nameLength = this.buffer.readUInt16LE(offset + 28);
+      const extraLength = this.buffer.readUInt16LE(offset + 30);
+      const commentLength = this.buffer.readUInt16LE(offset + 32);
+      const localHeaderOffset = this.buffer.readUInt32LE(offset + 42);
+      const name = this.buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+      entries.set(name, { name, method, compressedSize, localHeaderOffset });
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  }
+
+  /**
+   * 末尾からEOCD（End of Central Directory）を探す
+   */
+  private findEndOfCentralDirectory(): number {
+    const minOffset = Math.max(0, this.buffer.length - EOCD_SEARCH_SIZE);
+    for (let offset = this.buffer.length - EOCD_MIN_SIZE; offset >= minOffset; offset--) {
+      if (this.buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+        return offset;
+      }
+    }
+    throw new Error('ZIPファイルとして読み込めません（End of Central Directoryが見つかりません）');
+  }
+}
@@ -0,0 +1,94 @@
+import dotenv from 'dotenv';
+import { MessageCacheManager } from './cache/messages.js';
+import { DEFAULT_MAX_ANALYSIS_ATTEMPTS } from './cache/analysisStatus.js';
+import { RunHistoryManager, summarizeMonthlyUsage } from './cache/runHistory.js';
+import { formatCost, formatUsage } from './claude/pricing.js';
+import { parsePatternList } from './chatwork/roomSelector.js';
+import { Logger } from './utils/logger.js';
+
+// 環境変数読み込み
+dotenv.config();
+
+/**
+ * キャッシュの統計情報、欠落の可能性がある期間、分析に失敗し続けているメッセージ、月別のAPI使用量を表示
+ *
+ * 使い方:
+ *   npm run stats [-- <ルームID> ...]
+ *
+ * ルームIDを省略した場合は CHATWORK_ROOM_IDS / CHATWORK_ROOM_ID、それもなければキャッシュ済みの全ルームを表示する
+ */
+async function main() {
+  const logger = new Logger('Stats');
+  const cacheManager = new MessageCacheManager();
+
+  const args = process.argv.slice(2).filter(arg => !arg.startsWith('--'));
+  let roomIds = args.length > 0
+    ? args
+    : parsePatternList(process.env.CHATWORK_ROOM_IDS || process.env.CHATWORK_ROOM_ID);
+  if (roomIds.length === 0) {
+    roomIds = await cacheManager.listCachedRoomIds();
+  }
+
+  if (roomIds.length === 0) {
+    logger.info('キャッシュ済みのルームがありません。');
+    return;
+  }
+
+  const parsedMaxAttempts = Number.parseInt(process.env.ANALYSIS_MAX_ATTEMPTS ?? '', 10);
+  const maxAttempts = parsedMaxAttempts > 0 ? parsedMaxAttempts : DEFAULT_MAX_ANALYSIS_ATTEMPTS;
+
+  logger.info('=== キャッシュ統計 ===');
+
+  let gapRoomCount = 0;
+  let exhaustedCount = 0;
+  for (const roomId of roomIds) {
+    logger.info(`\n##### ルーム ${roomId} #####`);
+    await cacheManager.showStats(roomId, maxAttempts);
+    await cacheManager.showAnalysisStats(roomId);
+
+    const gaps = await cacheManager.getGaps(roomId);
+    if (gaps.length > 0) {
+      gapRoomCount++;
+    }
+    exhaustedCount += (await cacheManager.getRetryExhaustedIds(roomId, maxAttempts)).length;
+  }
+
+  if (gapRoomCount > 0) {
+    logger.info(`\n⚠️ ${gapRoomCount}ルームに欠落の可能性がある期間があります。この期間の知見は出力に含まれません。`);
+  } else {
+    logger.info('\n欠落の可能性がある期間はありません。');
+  }
+
+  if (exhaustedCount > 0) {
+    logger.info(`\n⚠️ 分析に${maxAttempts}回失敗したメッセージが${exhaustedCount}件あります。再試行する場合は ANALYSIS_MAX_ATTEMPTS を増やしてください。`);
+  }
+
+  // 月別・ルーム別のAPI使用量（cache/run_history.json）
+  const records = await new RunHistoryManager().load();
+  const targetRoomIds = new Set(roomIds);
+  const monthly = summarizeMonthlyUsage(records.filter(record => targetRoomIds.has(record.room_id)));
+  if (monthly.length > 0) {
+    logger.info('\n=== 月別のAPI使用量（概算） ===');
+    for (const summary of monthly) {
+      // すべて単価不明の月は$0ではなく料金不明と表示する
+      const cost = summary.unpriced_records === summary.records
+        ? formatCost(null)
+        : `${formatCost(summary.cost_usd)}${summary.unpriced_records > 0 ? `（料金不明の記録 ${summary.unpriced_records}件を除く）` : ''}`;
+      const usage = formatUsage({
+        requests: summary.requests,
+        inputTokens: summary.input_tokens,
+        outputTokens: summary.output_tokens,
+        cacheWriteTokens: summary.cache_write_tokens,
+        cacheReadTokens: summary.cache_read_tokens
+      });
+      logger.info(`  ${summary.month} ルーム ${summary.room_id}: ${cost} / ${usage} / ${summary.requests}リクエスト`);
+    }
+  }
+}
+
+main().catch(error => {
+  const logger = new Logger('Stats');
+  const errorMsg = error instanceof Error ? error.message : String(error);
+  logger.error(`統計の表示に失敗しました: ${errorMsg}`, error);
+  process.exit(1);
+});
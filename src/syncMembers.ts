@@ -0,0 +1,135 @@
+import dotenv from 'dotenv';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname } from 'path';
+import { ChatworkClient, type ChatworkMember, type RoomInfo } from './chatwork/client.js';
+import { selectRooms, parsePatternList } from './chatwork/roomSelector.js';
+import {
+  getDefaultTeamProfilesPath,
+  mergeMemberProfiles,
+  type TeamProfilesConfig
+} from './team/profiles.js';
+import { Logger } from './utils/logger.js';
+
+// 環境変数読み込み
+dotenv.config();
+
+/**
+ * ルームメンバー（GET /rooms/{id}/members）からチームプロファイルを生成・更新
+ *
+ * 使い方:
+ *   npm run sync-members [-- <ルームID> ...]
+ *
+ * ルームIDを省略した場合は CHATWORK_ROOM_IDS / CHATWORK_ROOM_ID と CHATWORK_ROOM_INCLUDE の対象ルーム
+ * 未登録のメンバーはルームの権限（管理者はsenior、それ以外はmember）で追加し、登録済みのロールは変更しない
+ */
+async function main() {
+  const logger = new Logger('SyncMembers');
+
+  const chatworkToken = process.env.CHATWORK_API_TOKEN;
+  if (!chatworkToken) {
+    logger.error('エラー: CHATWORK_API_TOKEN が設定されていません');
+    process.exit(1);
+  }
+
+  const client = new ChatworkClient(chatworkToken);
+  const roomIds = await resolveRoomIds(client, process.argv.slice(2).filter(arg => !arg.startsWith('--')));
+  if (roomIds.length === 0) {
+    logger.error('エラー: 対象ルームがありません。ルームIDを指定するか、CHATWORK_ROOM_IDS / CHATWORK_ROOM_ID / CHATWORK_ROOM_INCLUDE を設定してください');
+    process.exit(1);
+  }
+
+  const profilesPath = process.env.TEAM_PROFILES_PATH || getDefaultTeamProfilesPath();
+
+  logger.info('=== チームプロファイル同期 ===\n');
+  logger.info(`プロファイル: ${profilesPath}`);
+  logger.info(`対象ルーム: ${roomIds.join(', ')}\n`);
+
+  const members: ChatworkMember[] = [];
+  for (const roomId of roomIds) {
+    const roomMembers = await client.getMembers(roomId);
+    logger.info(`ルーム ${roomId}: ${roomMembers.length}名`);
+    members.push(...roomMembers);
+  }
+
+  const existing = await loadProfilesFile(profilesPath);
+  const result = mergeMemberProfiles(existing, members);
+
+  logger.info('');
+  for (const { accountId, profile } of result.added) {
+    logger.info(`  + ${profile.name} (account_id: ${accountId}) → ${profile.role}`);
+  }
+  for (const { accountId, from, to } of result.renamed) {
+    logger.info(`  ~ ${from} → ${to} (account_id: ${accountId})`);
+  }
+
+  if (result.added.length === 0 && result.renamed.length === 0) {
+    logger.info('✅ 変更はありません');
+    return;
+  }
+
+  await mkdir(dirname(profilesPath), { recursive: true });
+  await writeFile(profilesPath, JSON.stringify(result.config, null, 2) + '\n', 'utf-8');
+
+  logger.info(`\n✅ 同期完了: 追加${result.added.length}名 / 名前を更新${result.renamed.length}名 / 変更なし${result.unchanged}名`);
+  if (result.added.length > 0) {
+    logger.info('追加したメンバーのロールはルームの権限から推定しています。必要に応じて junior などに変更してください');
+  }
+}
+
+/**
+ * 対象ルームを決定（引数 > CHATWORK_ROOM_IDS / CHATWORK_ROOM_ID + CHATWORK_ROOM_INCLUDE）
+ */
+async function resolveRoomIds(client: ChatworkClient, args: string[]): Promise<string[]> {
+  if (args.length > 0) {
+    return args;
+  }
+
+  const explicitRoomIds = parsePatternList(process.env.CHATWORK_ROOM_IDS || process.env.CHATWORK_ROOM_ID);
+  const includePatterns = parsePatternList(process.env.CHATWORK_ROOM_INCLUDE);
+  if (includePatterns.length === 0) {
+    return explicitRoomIds;
+  }
+
+  const rooms = await client.getRooms();
+  const selected = selectRooms(rooms, {
+    includePatterns,
+    excludePatterns: parsePatternList(process.env.CHATWORK_ROOM_EXCLUDE),
+    types: parsePatternList(process.env.CHATWORK_ROOM_TYPES || 'group') as RoomInfo['type'][]
+  });
+  return [...new Set([...explicitRoomIds, ...selected.map(room => String(room.room_id))])];
+}
+
+/**
+ * 既存のプロファイルを読み込む（ファイルがない場合はnull）
+ * ロールの検証はTeamProfileManagerに任せ、記述された内容をそのまま保持する
+ */
+async function loadProfilesFile(filePath: string): Promise<TeamProfilesConfig | null> {
+  if (!existsSync(filePath)) {
+    return null;
+  }
+
+  const content = await readFile(filePath, 'utf-8');
+  let config: unknown;
+  try {
+    config = JSON.parse(content);
+  } catch (e) {
+    throw new Error(`JSONパースエラー: ${filePath} - ${e instanceof Error ? e.message : e}`);
+  }
+
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`不正なJSON構造: "profiles" オブジェクトが必要です (${filePath})`);
+  }
+  const profiles = (config as Record<string, unknown>).profiles;
+  if (profiles !== undefined && (typeof profiles !== 'object' || profiles === null || Array.isArray(profiles))) {
+    throw new Error(`不正なJSON構造: "profiles" オブジェクトが必要です (${filePath})`);
+  }
+  return config as TeamProfilesConfig;
+}
+
+main().catch(error => {
+  const logger = new Logger('SyncMembers');
+  const errorMsg = error instanceof Error ? error.message : String(error);
+  logger.error(`チームプロファイルの同期に失敗しました: ${errorMsg}`, error);
+  process.exit(1);
+});
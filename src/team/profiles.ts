@@ -1,6 +1,7 @@
 import { readFileSync, existsSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
+import type { ChatworkMember } from '../chatwork/client.js';
 import { Logger } from '../utils/logger.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -28,8 +29,83 @@ const ROLE_LABELS: Record<TeamRole, string> = {
   junior: 'Junior',
 };
 
+// ルームの権限から推定する初期ロール（管理者はsenior、それ以外はmember）
+const ROOM_ROLE_TO_TEAM_ROLE: Record<ChatworkMember['role'], TeamRole> = {
+  admin: 'senior',
+  member: 'member',
+  readonly: 'member',
+};
+
+/**
+ * デフォルトのプロファイルのパス（プロジェクトルート/config/team-profiles.json）
+ */
+export function getDefaultTeamProfilesPath(): string {
+  const projectRoot = join(__dirname, '..', '..');
+  return join(projectRoot, 'config', 'team-profiles.json');
+}
+
+/**
+ * ルームの権限から初期ロールを推定
+ */
+export function inferRoleFromRoomRole(roomRole: ChatworkMember['role']): TeamRole {
+  return ROOM_ROLE_TO_TEAM_ROLE[roomRole] ?? 'member';
+}
+
+export interface ProfileSyncResult {
+  config: TeamProfilesConfig;
+  added: { accountId: string; profile: TeamProfile }[];
+  renamed: { accountId: string; from: string; to: string }[];
+  unchanged: number;
+}
+
+/**
+ * ルームメンバーをプロファイルにマージ
+ * - 未登録のメンバーはルームの権限から推定したロールで追加（複数ルームで権限が異なる場合は最も高いもの）
+ * - 登録済みのメンバーはロールを変更せず、名前のみ最新にする
+ * - プロファイル以外のキー（_comment など）はそのまま残す
+ */
+export function mergeMemberProfiles(
+  existing: TeamProfilesConfig | null,
+  members: ChatworkMember[]
+): ProfileSyncResult {
+  const profiles: Record<string, TeamProfile> = { ...(existing?.profiles ?? {}) };
+  const result: ProfileSyncResult = {
+    config: { ...(existing ?? {}), profiles },
+    added: [],
+    renamed: [],
+    unchanged: 0,
+  };
+
+  // account_idごとに最も高い権限を採用
+  const memberMap = new Map<string, ChatworkMember>();
+  for (const member of members) {
+    const accountId = String(member.account_id);
+    const current = memberMap.get(accountId);
+    if (!current || inferRoleFromRoomRole(member.role) === 'senior') {
+      memberMap.set(accountId, member);
+    }
+  }
+
+  for (const [accountId, member] of memberMap) {
+    const profile = profiles[accountId];
+    if (!profile) {
+      const added = { name: member.name, role: inferRoleFromRoomRole(member.role) };
+      profiles[accountId] = added;
+      result.added.push({ accountId, profile: added });
+    } else if (profile.name !== member.name) {
+      result.renamed.push({ accountId, from: profile.name, to: member.name });
+      profiles[accountId] = { ...profile, name: member.name };
+    } else {
+      result.unchanged++;
+    }
+  }
+
+  return result;
+}
+
 export class TeamProfileManager {
   private profiles: Map<string, TeamProfile> = new Map();
+  private unregisteredAccountIds = new Set<string>();
   private logger: Logger;
 
   constructor(configPath?: string) {
@@ -48,8 +124,7 @@ export class TeamProfileManager {
     }
 
     // デフォルトパス（プロジェクトルート/config/team-profiles.json）
-    const projectRoot = join(__dirname, '..', '..');
-    const defaultPath = join(projectRoot, 'config', 'team-profiles.json');
+    const defaultPath = getDefaultTeamProfilesPath();
 
     if (existsSync(defaultPath)) {
       this.parseFile(defaultPath);
@@ -103,11 +178,16 @@ export class TeamProfileManager {
 
   /**
    * account_idからロールを解決する
-   * 未登録の場合はmemberを返す
+   * 未登録の場合はmemberを返す（プロファイルがある場合は未登録のメンバーを1度だけ警告）
    */
   resolveRole(accountId: number): ResolvedRole {
     const key = String(accountId);
     const profile = this.profiles.get(key);
+    // 負のIDはエクスポート等から合成したもの（Chatworkのアカウントではない）
+    if (!profile && accountId > 0 && this.profiles.size > 0 && !this.unregisteredAccountIds.has(key)) {
+      this.unregisteredAccountIds.add(key);
+      this.logger.warn(`プロファイル未登録のメンバー (account_id: ${key})、memberとして扱います。npm run sync-members で追加できます`);
+    }
     const role: TeamRole = profile?.role ?? 'member';
 
     return {
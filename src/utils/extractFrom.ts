@@ -0,0 +1,52 @@
+/**
+ * EXTRACT_FROM（期間指定）によるメッセージの絞り込み
+ * メッセージソース（Chatwork / Slack）に依存しないため、共通のユーティリティとして提供
+ */
+
+import type { ChatworkMessage } from '../chatwork/client.js';
+import { Logger } from './logger.js';
+
+/**
+ * 期間を指定してメッセージをフィルタ（日数指定）
+ */
+export function filterMessagesByDateRange(messages: ChatworkMessage[], daysBack: number): ChatworkMessage[] {
+  const cutoffTime = Math.floor(Date.now() / 1000) - (daysBack * 24 * 60 * 60);
+  return messages.filter(msg => msg.send_time >= cutoffTime);
+}
+
+/**
+ * EXTRACT_FROM形式でメッセージをフィルタ
+ * - 数字: 過去N日間
+ * - 日付形式（YYYY-MM-DD）: 指定日以降
+ */
+export function filterMessagesByExtractFrom(
+  messages: ChatworkMessage[],
+  extractFrom: string
+): { messages: ChatworkMessage[]; description: string } {
+  // 日付形式かどうかをチェック（YYYY-MM-DD）
+  const dateMatch = extractFrom.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+
+  if (dateMatch) {
+    // 日付形式の場合（ローカル日付の0時として解釈）
+    const [, year, month, day] = dateMatch;
+    const fromDate = new Date(Number(year), Number(month) - 1, Number(day), 0, 0, 0, 0);
+    const cutoffTime = Math.floor(fromDate.getTime() / 1000);
+    const filtered = messages.filter(msg => msg.send_time >= cutoffTime);
+    return {
+      messages: filtered,
+      description: `${extractFrom}以降`
+    };
+  } else {
+    // 数字（日数）の場合
+    const days = parseInt(extractFrom, 10);
+    if (isNaN(days)) {
+      new Logger('Filter').warn(`EXTRACT_FROM の形式が不正です: ${extractFrom}`);
+      return { messages, description: '全期間' };
+    }
+    const filtered = filterMessagesByDateRange(messages, days);
+    return {
+      messages: filtered,
+      description: `過去${days}日`
+    };
+  }
+}
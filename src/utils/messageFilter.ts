@@ -173,7 +173,7 @@ export interface FilterStats {
 export function filterMessages<T extends { body: string }>(
   messages: T[],
   config: Partial<FilterConfig> = {}
-): { filtered: T[]; stats: FilterStats } {
+): { filtered: T[]; excluded: { message: T; reason: string }[]; stats: FilterStats } {
   const cfg = { ...DEFAULT_FILTER_CONFIG, ...config };
   const stats: FilterStats = {
     total: messages.length,
@@ -183,6 +183,7 @@ export function filterMessages<T extends { body: string }>(
   };
 
   const filtered: T[] = [];
+  const excluded: { message: T; reason: string }[] = [];
 
   for (const msg of messages) {
     // スキップ判定
@@ -192,6 +193,7 @@ export function filterMessages<T extends { body: string }>(
       stats.skipped++;
       const reason = skipResult.reason || 'unknown';
       stats.reasons[reason] = (stats.reasons[reason] || 0) + 1;
+      excluded.push({ message: msg, reason });
       continue;
     }
 
@@ -207,5 +209,5 @@ export function filterMessages<T extends { body: string }>(
     }
   }
 
-  return { filtered, stats };
+  return { filtered, excluded, stats };
 }
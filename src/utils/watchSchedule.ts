@@ -0,0 +1,97 @@
+/**
+ * watchモード（常駐してメッセージを取りこぼさず蓄積）のポーリング間隔の計算と統計表示
+ */
+
+import type { RateLimitState } from '../chatwork/client.js';
+
+export interface WatchConfig {
+  intervalSeconds: number | null;  // ポーリング間隔（nullはレート制限から自動計算）
+  analyze: boolean;                // 新規メッセージも分析するか
+  analyzeBatchSize: number;        // 分析待ちがこの件数に達したら分析（1回の分析件数の上限）
+}
+
+export const DEFAULT_WATCH_CONFIG: WatchConfig = {
+  intervalSeconds: null,
+  analyze: false,
+  analyzeBatchSize: 20,
+};
+
+/**
+ * Chatwork APIのレート制限（5分あたり300リクエスト）
+ */
+export const CHATWORK_RATE_LIMIT = {
+  requests: 300,
+  windowSeconds: 300,
+};
+
+// watchモードで使うのはレート制限の半分まで（同じAPIトークンを使う他のツール・通常実行の分を残す）
+const RATE_LIMIT_BUDGET_RATIO = 0.5;
+
+// 自動計算時の最短間隔（差分取得の100件上限に対して十分短く、ログが流れすぎない間隔）
+const MIN_AUTO_INTERVAL_SECONDS = 60;
+
+/**
+ * レート制限に収まる最短のポーリング間隔（秒）
+ * @param requestsPerCycle 1サイクルで送るリクエスト数（ルーム数）
+ */
+export function getMinimumInterval(requestsPerCycle: number): number {
+  const budget = CHATWORK_RATE_LIMIT.requests * RATE_LIMIT_BUDGET_RATIO;
+  return Math.ceil(requestsPerCycle * CHATWORK_RATE_LIMIT.windowSeconds / budget);
+}
+
+/**
+ * ポーリング間隔を決定（指定値がレート制限を超える場合は最短間隔に引き上げる）
+ */
+export function resolveWatchInterval(
+  requestsPerCycle: number,
+  config: Partial<WatchConfig> = {}
+): { intervalSeconds: number; adjusted: boolean } {
+  const minimum = getMinimumInterval(requestsPerCycle);
+  const requested = config.intervalSeconds ?? DEFAULT_WATCH_CONFIG.intervalSeconds;
+
+  if (requested === null) {
+    return { intervalSeconds: Math.max(MIN_AUTO_INTERVAL_SECONDS, minimum), adjusted: false };
+  }
+  if (requested < minimum) {
+    return { intervalSeconds: minimum, adjusted: true };
+  }
+  return { intervalSeconds: requested, adjusted: false };
+}
+
+/**
+ * 1サイクル分の集計
+ */
+export interface WatchCycleStats {
+  cycle: number;
+  newMessages: number;      // APIから取得した件数
+  updatedMessages: number;  // 編集されたメッセージ
+  cachedMessages: number;   // キャッシュの合計件数
+  pendingMessages: number;  // 未分析（analyze有効時は事前フィルタ通過分）
+  analyzedMessages: number; // このサイクルで分析した件数
+  failedRooms: number;
+  rateLimit: RateLimitState;
+  nextIntervalSeconds: number;
+}
+
+/**
+ * サイクルごとの統計行
+ * 例: #3 新規12件 / 編集0件 / キャッシュ840件 / 未分析5件 / 分析0件 / API残り 280/300 / 次回60秒後
+ */
+export function formatCycleStats(stats: WatchCycleStats): string {
+  const parts = [
+    `#${stats.cycle}`,
+    `新規${stats.newMessages}件`,
+    `編集${stats.updatedMessages}件`,
+    `キャッシュ${stats.cachedMessages}件`,
+    `未分析${stats.pendingMessages}件`,
+    `分析${stats.analyzedMessages}件`
+  ];
+  if (stats.failedRooms > 0) {
+    parts.push(`失敗${stats.failedRooms}ルーム`);
+  }
+  if (stats.rateLimit.remaining !== null && stats.rateLimit.limit !== null) {
+    parts.push(`API残り ${stats.rateLimit.remaining}/${stats.rateLimit.limit}`);
+  }
+  parts.push(`次回${stats.nextIntervalSeconds}秒後`);
+  return parts.join(' / ');
+}
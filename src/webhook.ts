@@ -0,0 +1,107 @@
+import dotenv from 'dotenv';
+import fetch from 'node-fetch';
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import {
+  ChatworkWebhookServer,
+  DEFAULT_WEBHOOK_SERVER_CONFIG,
+  signWebhookBody
+} from './chatwork/webhook.js';
+import { parsePatternList } from './chatwork/roomSelector.js';
+import { Logger } from './utils/logger.js';
+
+// 環境変数読み込み
+dotenv.config();
+
+/**
+ * ChatworkのWebhookを受信してメッセージをキャッシュに追記する常駐サーバー
+ *
+ * 使い方:
+ *   npm run webhook                          # サーバーを起動
+ *   npm run webhook -- --send <payload.json> # サンプルのペイロードに署名して起動中のサーバーへPOST（動作確認用）
+ *
+ * 受信したメッセージは未分析として room_{roomId}.json に追加され、次回の通常実行で分析される
+ */
+async function main() {
+  const logger = new Logger('Webhook');
+  const args = process.argv.slice(2);
+
+  const token = process.env.CHATWORK_WEBHOOK_TOKEN;
+  if (!token) {
+    logger.error('エラー: CHATWORK_WEBHOOK_TOKEN が設定されていません');
+    logger.error('Chatworkの「Webhook」設定画面に表示されるトークンを .env に設定してください');
+    process.exit(1);
+  }
+
+  const port = process.env.WEBHOOK_PORT ? parseInt(process.env.WEBHOOK_PORT, 10) : DEFAULT_WEBHOOK_SERVER_CONFIG.port;
+  if (isNaN(port) || port <= 0) {
+    logger.error(`エラー: WEBHOOK_PORT の値が不正です: ${process.env.WEBHOOK_PORT}`);
+    process.exit(1);
+  }
+  const path = process.env.WEBHOOK_PATH || DEFAULT_WEBHOOK_SERVER_CONFIG.path;
+
+  const sendFile = getOption(args, '--send');
+  if (sendFile) {
+    await sendSamplePayload(sendFile, getOption(args, '--url') ?? `http://localhost:${port}${path}`, token, logger);
+    return;
+  }
+
+  // CHATWORK_ROOM_IDS / CHATWORK_ROOM_ID を指定した場合はそのルームのイベントのみ受け付ける
+  const roomIds = parsePatternList(process.env.CHATWORK_ROOM_IDS || process.env.CHATWORK_ROOM_ID);
+
+  logger.info('=== Chatwork Webhook受信 ===\n');
+  logger.info(`対象ルーム: ${roomIds.length > 0 ? roomIds.join(', ') : '全ルーム'}`);
+
+  const server = new ChatworkWebhookServer(token, { port, path, roomIds });
+  await server.start();
+
+  const shutdown = async () => {
+    logger.info('\n停止しています...');
+    await server.stop();
+    logger.info('停止しました');
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+}
+
+/**
+ * ペイロードのファイルに署名して送信（ローカルでの動作確認用）
+ */
+async function sendSamplePayload(filePath: string, url: string, token: string, logger: Logger): Promise<void> {
+  if (!existsSync(filePath)) {
+    logger.error(`エラー: ファイルが見つかりません: ${filePath}`);
+    process.exit(1);
+  }
+
+  const body = await readFile(filePath, 'utf-8');
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'X-ChatWorkWebhookSignature': signWebhookBody(body, token)
+    },
+    body
+  });
+
+  logger.info(`送信先: ${url}`);
+  logger.info(`応答: ${response.status} ${await response.text()}`);
+  if (!response.ok) {
+    process.exit(1);
+  }
+}
+
+/**
+ * `--name value` 形式のオプション値を取得
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+main().catch(error => {
+  const logger = new Logger('Webhook');
+  const errorMsg = error instanceof Error ? error.message : String(error);
+  logger.error(`Webhookサーバーでエラーが発生しました: ${errorMsg}`, error);
+  process.exit(1);
+});